@@ -0,0 +1,594 @@
+/**
+ * Command-line scanner built on the same modules as the app.
+ * Run with: npm run cli -- <command> [options]   (see --help)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import type { CardEntry, ColumnMapping, ScanMode, ScanResult, VisionProviderType } from './src/types';
+import type { VisionProvider } from './src/utils/vision';
+import { fetchSheetData, fetchSheetHeaders, guessColumnMapping } from './src/utils/sheets';
+import { parseListFile, exportCardList } from './src/utils/listFiles';
+import { formatCardEntry, parseCardEntry } from './src/utils/cards';
+import { cardKey, DEFAULT_MATCH_THRESHOLD } from './src/utils/matching';
+import { stringifyCsv } from './src/utils/csv';
+import { identifyCardsInImage, classifyDetections } from './src/utils/vision';
+import { createVisionProvider } from './src/utils/providers';
+import { createRecordingProvider, createReplayProvider } from './src/utils/providers/replay';
+import type { RecordedReply, Recording } from './src/utils/providers/replay';
+import {
+  computeMetrics,
+  expectedCards,
+  parseManifest,
+  reportedDetections,
+  scoreDetections,
+  sumReplies,
+  sumScores,
+  tokenCost,
+} from './src/utils/benchmark';
+import type { BenchmarkScore, TokenPrices } from './src/utils/benchmark';
+import { createRecordingTransport, createReplayTransport, setTransport } from './src/utils/transport';
+import type { HttpRecording } from './src/utils/transport';
+import { DEFAULT_COLUMN_MAPPING } from './src/utils/storage';
+
+const EXIT_OK = 0;
+/** A request failed, or some photos could not be scanned */
+const EXIT_FAILURE = 1;
+/** Bad command line */
+const EXIT_USAGE = 2;
+
+const OUTPUT_FORMATS = ['table', 'json', 'csv'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+const PROVIDERS: VisionProviderType[] = ['gemini', 'openai', 'mock'];
+
+const DEFAULT_MANIFEST = 'src/fixtures/benchmark.json';
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  scan <images...>         Find the cards in each photo and check them against your lists
+  list fetch               Print the missing list from the sheet
+  list diff <file> [file]  Compare a list file with the sheet (or with a second file)
+  bench [manifest]         Score recognition against labelled photos (default ${DEFAULT_MANIFEST})
+
+Options (environment variable in brackets):
+  --sheet <url>            Google Sheet URL [SHEET_URL]
+  --tab <name>             Tab with the missing list [SHEET_TAB]
+  --owned-tab <name>       Tab with owned cards, for scans [OWNED_TAB]
+  --column <letter>        Card name column; other columns are guessed from the header [SHEET_COLUMN]
+  --list <file>            Read the missing list from a csv/json/txt file instead of the sheet
+  --provider <name>        gemini, openai or mock (default gemini) [VISION_PROVIDER]
+  --api-key <key>          Vision API key [VISION_API_KEY or GEMINI_API_KEY]
+  --endpoint <url>         Vision API endpoint [VISION_ENDPOINT]
+  --model <name>           Vision model [VISION_MODEL]
+  --proxy <url>            Scan through a scan proxy server, which holds the key [PROXY_URL]
+  --mode <mode>            missing or inventory (default missing; inventory for bench)
+  --threshold <0-1>        Name match threshold (default ${DEFAULT_MATCH_THRESHOLD})
+  --format <format>        table, json or csv (default table) [OUTPUT_FORMAT]
+  --verbose                Print the model's raw replies to stderr
+  --record <file>          bench: save the model's replies to replay later
+  --replay <file>          bench: answer from saved replies instead of the provider
+  --input-price <dollars>  bench: price per million input tokens, to report cost
+  --output-price <dollars> bench: price per million output tokens
+  --min-f1 <0-1>           bench: exit with 1 if the overall F1 is lower
+  --http-record <file>     Save every HTTP exchange, with API keys removed
+  --http-replay <file>     Answer HTTP requests from a saved file instead of the network
+  --help                   Show this help
+
+Exit codes: 0 success, 1 a request or scan failed (or F1 below --min-f1), 2 bad usage`;
+
+/**
+ * Thrown for mistakes on the command line; printed with the usage hint
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+function parseCommandLine() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        sheet: { type: 'string', default: process.env.SHEET_URL ?? '' },
+        tab: { type: 'string', default: process.env.SHEET_TAB ?? '' },
+        'owned-tab': { type: 'string', default: process.env.OWNED_TAB ?? '' },
+        column: { type: 'string', default: process.env.SHEET_COLUMN ?? '' },
+        list: { type: 'string' },
+        provider: { type: 'string', default: process.env.VISION_PROVIDER ?? 'gemini' },
+        'api-key': { type: 'string', default: process.env.VISION_API_KEY ?? process.env.GEMINI_API_KEY ?? '' },
+        endpoint: { type: 'string', default: process.env.VISION_ENDPOINT ?? '' },
+        model: { type: 'string', default: process.env.VISION_MODEL ?? '' },
+        proxy: { type: 'string', default: process.env.PROXY_URL ?? '' },
+        mode: { type: 'string' },
+        threshold: { type: 'string', default: String(DEFAULT_MATCH_THRESHOLD) },
+        format: { type: 'string', default: process.env.OUTPUT_FORMAT ?? 'table' },
+        verbose: { type: 'boolean', default: false },
+        record: { type: 'string' },
+        replay: { type: 'string' },
+        'input-price': { type: 'string' },
+        'output-price': { type: 'string' },
+        'min-f1': { type: 'string' },
+        'http-record': { type: 'string' },
+        'http-replay': { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+let flags: ReturnType<typeof parseCommandLine>['values'];
+
+/** Progress and diagnostics go to stderr, so stdout can be piped */
+function log(message: string): void {
+  process.stderr.write(`${message}\n`);
+}
+
+function outputFormat(): OutputFormat {
+  const format = flags.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new UsageError(`Unknown format "${flags.format}" (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  return format;
+}
+
+function scanMode(fallback: ScanMode): ScanMode {
+  const mode = flags.mode ?? fallback;
+  if (mode !== 'missing' && mode !== 'inventory') {
+    throw new UsageError(`Unknown mode "${mode}" (expected missing or inventory)`);
+  }
+  return mode;
+}
+
+/**
+ * Reads a number flag that must lie between 0 and 1
+ */
+function fractionFlag(name: 'threshold' | 'min-f1'): number {
+  const value = Number(flags[name]);
+  if (!(value >= 0 && value <= 1)) {
+    throw new UsageError(`--${name} must be a number from 0 to 1`);
+  }
+  return value;
+}
+
+/**
+ * The provider chosen with --provider, checked to have its API key
+ */
+function visionProviderFromFlags(): VisionProvider {
+  const visionProvider = flags.provider as VisionProviderType;
+  if (!PROVIDERS.includes(visionProvider)) {
+    throw new UsageError(`Unknown provider "${flags.provider}" (expected ${PROVIDERS.join(', ')})`);
+  }
+
+  const provider = createVisionProvider({
+    visionProvider,
+    visionApiKey: flags['api-key'],
+    visionEndpoint: flags.endpoint,
+    visionModel: flags.model,
+    proxyUrl: flags.proxy,
+  });
+  if (provider.requiresApiKey && !flags['api-key']) {
+    throw new UsageError(`${provider.name} needs an API key: pass --api-key or set VISION_API_KEY`);
+  }
+  return provider;
+}
+
+function logRetry(error: Error, attempt: number, delayMs: number): void {
+  log(`  ${error.message}; retry ${attempt} in ${Math.ceil(delayMs / 1000)}s`);
+}
+
+/**
+ * Prints rows as an aligned table, CSV, or a JSON array of objects keyed by column
+ */
+function printRows(columns: string[], rows: Array<Array<string | number | null>>, format: OutputFormat): void {
+  if (format === 'json') {
+    const objects = rows.map(row => Object.fromEntries(columns.map((column, i) => [column, row[i]])));
+    process.stdout.write(JSON.stringify(objects, null, 2) + '\n');
+    return;
+  }
+
+  const cells = rows.map(row => row.map(value => (value === null ? '' : String(value))));
+  if (format === 'csv') {
+    process.stdout.write(stringifyCsv([columns, ...cells]));
+    return;
+  }
+
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map(row => row[i].length)));
+  const line = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+  process.stdout.write([line(columns), line(widths.map(width => '-'.repeat(width))), ...cells.map(line)].join('\n') + '\n');
+}
+
+/**
+ * The sheet's column mapping: guessed from the header row, with --column as
+ * the name column when given
+ */
+async function sheetMapping(): Promise<ColumnMapping> {
+  const headers = await fetchSheetHeaders(flags.sheet, flags.tab);
+  return {
+    ...DEFAULT_COLUMN_MAPPING,
+    ...guessColumnMapping(headers),
+    ...(flags.column ? { name: flags.column.toUpperCase() } : {}),
+  };
+}
+
+function readListFile(file: string): CardEntry[] {
+  return parseListFile(file, fs.readFileSync(file, 'utf8'), {
+    ...DEFAULT_COLUMN_MAPPING,
+    ...(flags.column ? { name: flags.column.toUpperCase() } : {}),
+  });
+}
+
+/**
+ * Loads the missing and owned lists from --list or the sheet. Both are
+ * empty when neither is given.
+ */
+async function loadLists(): Promise<{ missing: CardEntry[]; owned: CardEntry[] }> {
+  if (flags.list) {
+    return { missing: readListFile(flags.list), owned: [] };
+  }
+  if (!flags.sheet) {
+    return { missing: [], owned: [] };
+  }
+
+  log(`Loading lists from ${flags.sheet}${flags.tab ? ` (${flags.tab})` : ''}...`);
+  const mapping = await sheetMapping();
+  const missing = await fetchSheetData(flags.sheet, flags.tab, mapping);
+  const owned = flags['owned-tab'] ? await fetchSheetData(flags.sheet, flags['owned-tab'], mapping) : [];
+  log(`Loaded ${missing.length} missing and ${owned.length} owned cards`);
+  return { missing, owned };
+}
+
+/**
+ * Reads an image file as a data URL, the same format the app's file picker produces
+ */
+function readImageAsDataUrl(imagePath: string): string {
+  const mimeTypes: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.webp': 'image/webp',
+    '.gif': 'image/gif',
+  };
+  const mimeType = mimeTypes[path.extname(imagePath).toLowerCase()] ?? 'image/jpeg';
+  return `data:${mimeType};base64,${fs.readFileSync(imagePath).toString('base64')}`;
+}
+
+async function runScan(images: string[]): Promise<number> {
+  if (images.length === 0) {
+    throw new UsageError('scan needs at least one image');
+  }
+
+  const format = outputFormat();
+  const mode = scanMode('missing');
+  const threshold = fractionFlag('threshold');
+  const provider = visionProviderFromFlags();
+
+  const { missing, owned } = await loadLists();
+  if (mode === 'missing' && missing.length === 0) {
+    throw new UsageError('Missing-list scans need --sheet or --list (or use --mode inventory)');
+  }
+
+  const rows: Array<Array<string | number | null>> = [];
+  let failed = 0;
+
+  for (const image of images) {
+    log(`Scanning ${image} with ${provider.name}...`);
+    try {
+      const { detections, rawResponse, truncated } = await identifyCardsInImage(
+        readImageAsDataUrl(image),
+        provider,
+        mode,
+        missing,
+        { onRetry: logRetry }
+      );
+      if (flags.verbose) {
+        log(rawResponse);
+      }
+      if (truncated) {
+        log('  The reply was cut short; some cards may be missing');
+      }
+
+      const results: ScanResult[] = classifyDetections(detections, missing, owned, threshold);
+      log(`  ${results.length} cards, ${results.filter(result => result.status === 'need').length} needed`);
+      for (const result of results) {
+        rows.push([
+          image,
+          result.status,
+          result.name,
+          result.detectedName,
+          result.set,
+          result.number,
+          Math.round(result.confidence * 100) / 100,
+        ]);
+      }
+    } catch (error) {
+      failed++;
+      log(`  Failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printRows(['image', 'status', 'name', 'detected', 'set', 'number', 'confidence'], rows, format);
+  if (failed > 0) {
+    log(`${failed} of ${images.length} photos could not be scanned`);
+    return EXIT_FAILURE;
+  }
+  return EXIT_OK;
+}
+
+function printCardList(list: CardEntry[], format: OutputFormat): void {
+  // csv and json use the app's export format, so the output can be imported again
+  if (format !== 'table') {
+    process.stdout.write(exportCardList(list, format));
+    return;
+  }
+  printRows(
+    ['name', 'set', 'number', 'variant', 'quantity'],
+    list.map(card => [card.name, card.setCode, card.number, card.variant, card.quantity]),
+    format
+  );
+}
+
+async function loadSheetList(): Promise<CardEntry[]> {
+  if (!flags.sheet) {
+    throw new UsageError('Pass --sheet or set SHEET_URL');
+  }
+  return fetchSheetData(flags.sheet, flags.tab, await sheetMapping());
+}
+
+async function runListFetch(): Promise<number> {
+  const format = outputFormat();
+  const list = await loadSheetList();
+  log(`Loaded ${list.length} cards`);
+  printCardList(list, format);
+  return EXIT_OK;
+}
+
+/**
+ * Compares two lists by card identity: '+' for cards only in the file,
+ * '-' for cards only in the sheet (or the second file)
+ */
+async function runListDiff(files: string[]): Promise<number> {
+  if (files.length === 0 || files.length > 2) {
+    throw new UsageError('list diff needs one file to compare with the sheet, or two files');
+  }
+
+  const format = outputFormat();
+  const local = readListFile(files[0]);
+  const other = files.length === 2 ? readListFile(files[1]) : await loadSheetList();
+
+  const localKeys = new Set(local.map(cardKey));
+  const otherKeys = new Set(other.map(cardKey));
+  const rows = [
+    ...local.filter(card => !otherKeys.has(cardKey(card))).map(card => ['+', formatCardEntry(card)]),
+    ...other.filter(card => !localKeys.has(cardKey(card))).map(card => ['-', formatCardEntry(card)]),
+  ];
+
+  log(`${rows.filter(([change]) => change === '+').length} added, ${rows.filter(([change]) => change === '-').length} removed`);
+  printRows(['change', 'card'], rows, format);
+  return EXIT_OK;
+}
+
+/**
+ * Reads --input-price and --output-price; null when neither is given
+ */
+function tokenPrices(): TokenPrices | null {
+  if (flags['input-price'] === undefined && flags['output-price'] === undefined) {
+    return null;
+  }
+  const input = Number(flags['input-price'] ?? 0);
+  const output = Number(flags['output-price'] ?? 0);
+  if (!(input >= 0) || !(output >= 0)) {
+    throw new UsageError('Token prices must be numbers of dollars per million tokens');
+  }
+  return { input, output };
+}
+
+const BENCH_COLUMNS = [
+  'image', 'expected', 'found', 'correct', 'precision', 'recall', 'f1',
+  'seconds', 'input_tokens', 'output_tokens', 'cost',
+];
+
+/**
+ * One line of the benchmark report: scores for a photo (or all of them),
+ * with the time and tokens its replies took
+ */
+function benchRow(
+  label: string,
+  score: BenchmarkScore,
+  replies: RecordedReply[],
+  prices: TokenPrices | null
+): Array<string | number | null> {
+  const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+  const { precision, recall, f1 } = computeMetrics(score);
+  const { latencyMs, usage } = sumReplies(replies);
+
+  return [
+    label,
+    score.truePositives + score.falseNegatives,
+    score.truePositives + score.falsePositives,
+    score.truePositives,
+    round(precision, 3),
+    round(recall, 3),
+    round(f1, 3),
+    round(latencyMs / 1000, 2),
+    usage?.inputTokens ?? null,
+    usage?.outputTokens ?? null,
+    usage && prices ? round(tokenCost(usage, prices), 4) : null,
+  ];
+}
+
+/**
+ * Scans every photo in the manifest and scores the results against its
+ * labels. Live runs time each reply; --record saves the replies, and
+ * --replay answers from them so a run can be repeated offline with the
+ * same results, latency and token counts.
+ */
+async function runBench(args: string[]): Promise<number> {
+  if (args.length > 1) {
+    throw new UsageError('bench takes at most one manifest');
+  }
+  if (flags.record && flags.replay) {
+    throw new UsageError('Pass either --record or --replay, not both');
+  }
+
+  const format = outputFormat();
+  const mode = scanMode('inventory');
+  const threshold = fractionFlag('threshold');
+  const minF1 = flags['min-f1'] === undefined ? null : fractionFlag('min-f1');
+  const prices = tokenPrices();
+
+  const manifestPath = args[0] ?? DEFAULT_MANIFEST;
+  const manifest = parseManifest(fs.readFileSync(manifestPath, 'utf8'));
+  const missing = flags.list ? readListFile(flags.list) : manifest.missing.map(card => parseCardEntry(card));
+  if (mode === 'missing' && missing.length === 0) {
+    throw new UsageError('Missing-list benchmarks need a "missing" list in the manifest, or --list');
+  }
+
+  // Replies of the photo being scanned, live or replayed
+  let replies: RecordedReply[] = [];
+  const onReply = (reply: RecordedReply) => replies.push(reply);
+  const provider = flags.replay
+    ? createReplayProvider(JSON.parse(fs.readFileSync(flags.replay, 'utf8')) as Recording, onReply)
+    : createRecordingProvider(visionProviderFromFlags(), onReply);
+
+  const rows: Array<Array<string | number | null>> = [];
+  const scores: BenchmarkScore[] = [];
+  const allReplies: RecordedReply[] = [];
+  let failed = 0;
+
+  for (const image of manifest.images) {
+    const file = path.relative(process.cwd(), path.resolve(path.dirname(manifestPath), image.file));
+    const expected = expectedCards(image, mode, missing, threshold);
+    replies = [];
+    log(`Scanning ${file} with ${provider.name}...`);
+
+    let score: BenchmarkScore;
+    try {
+      const { detections, rawResponse, truncated } = await identifyCardsInImage(
+        readImageAsDataUrl(file),
+        provider,
+        mode,
+        missing,
+        { onRetry: logRetry }
+      );
+      if (flags.verbose) {
+        log(rawResponse);
+      }
+      if (truncated) {
+        log('  The reply was cut short; some cards may be missing');
+      }
+      score = scoreDetections(reportedDetections(detections, mode, missing, threshold), expected, threshold);
+    } catch (error) {
+      // A failed scan found nothing, so it can't make the scores look better
+      failed++;
+      log(`  Failed: ${error instanceof Error ? error.message : String(error)}`);
+      score = scoreDetections([], expected, threshold);
+    }
+
+    if (score.missed.length > 0) {
+      log(`  Missed: ${score.missed.join(', ')}`);
+    }
+    if (score.extra.length > 0) {
+      log(`  Not expected: ${score.extra.join(', ')}`);
+    }
+    scores.push(score);
+    allReplies.push(...replies);
+    rows.push(benchRow(file, score, replies, prices));
+  }
+
+  const total = sumScores(scores);
+  rows.push(benchRow('total', total, allReplies, prices));
+  printRows(BENCH_COLUMNS, rows, format);
+
+  if (flags.record) {
+    const recording: Recording = {
+      provider: provider.name,
+      promptable: provider.promptable !== false,
+      wholeScans: !!provider.scan,
+      replies: allReplies,
+    };
+    fs.writeFileSync(flags.record, JSON.stringify(recording, null, 2) + '\n');
+    log(`Saved ${allReplies.length} replies to ${flags.record}`);
+  }
+
+  if (failed > 0) {
+    log(`${failed} of ${manifest.images.length} photos could not be scanned`);
+    return EXIT_FAILURE;
+  }
+  const { f1 } = computeMetrics(total);
+  if (minF1 !== null && f1 < minF1) {
+    log(`F1 ${f1.toFixed(3)} is below the minimum of ${minF1}`);
+    return EXIT_FAILURE;
+  }
+  return EXIT_OK;
+}
+
+async function runCommand(command: string, args: string[]): Promise<number> {
+  switch (command) {
+    case 'scan':
+      return runScan(args);
+    case 'list': {
+      const [subcommand, ...files] = args;
+      if (subcommand === 'fetch') return runListFetch();
+      if (subcommand === 'diff') return runListDiff(files);
+      throw new UsageError(`Unknown list command "${subcommand ?? ''}" (expected fetch or diff)`);
+    }
+    case 'bench':
+      return runBench(args);
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+async function main(): Promise<number> {
+  const commandLine = parseCommandLine();
+  flags = commandLine.values;
+  const [command, ...args] = commandLine.positionals;
+
+  if (flags.help || !command) {
+    log(USAGE);
+    return flags.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  if (flags['http-record'] && flags['http-replay']) {
+    throw new UsageError('Pass either --http-record or --http-replay, not both');
+  }
+  if (flags['http-replay']) {
+    const recording = JSON.parse(fs.readFileSync(flags['http-replay'], 'utf8')) as HttpRecording;
+    setTransport(createReplayTransport(recording.exchanges));
+  }
+  if (!flags['http-record']) {
+    return runCommand(command, args);
+  }
+
+  // Failed requests are saved too, so error responses can be replayed
+  const recorder = createRecordingTransport();
+  setTransport(recorder.transport);
+  try {
+    return await runCommand(command, args);
+  } finally {
+    const recording: HttpRecording = { exchanges: await recorder.exchanges() };
+    fs.writeFileSync(flags['http-record'], JSON.stringify(recording, null, 2) + '\n');
+    log(`Saved ${recording.exchanges.length} HTTP exchanges to ${flags['http-record']}`);
+  }
+}
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    if (error instanceof UsageError) {
+      log(`${error.message}\n\nRun with --help for usage.`);
+      process.exitCode = EXIT_USAGE;
+      return;
+    }
+    log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = EXIT_FAILURE;
+  });
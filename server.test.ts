@@ -0,0 +1,133 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { APP_ORIGIN, createProxyHandler, createRateLimiter, proxyConfigFromEnv } from './server';
+import { RequestError } from './src/utils/errors';
+import { createProxyProvider, PASSED_ON_STATUS } from './src/utils/proxy';
+import { setTransport } from './src/utils/transport';
+
+const IMAGE = 'data:image/jpeg;base64,iVBORw0KGgo=';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets each client make `limit` requests, then says how long to wait', () => {
+    const takeToken = createRateLimiter(3);
+
+    expect([takeToken('a'), takeToken('a'), takeToken('a')]).toEqual([0, 0, 0]);
+    // One token comes back every 20 seconds
+    expect(takeToken('a')).toBe(20_000);
+    expect(takeToken('b')).toBe(0);
+  });
+
+  it('refills evenly over a minute, up to the limit', () => {
+    const takeToken = createRateLimiter(3);
+    for (let i = 0; i < 3; i++) takeToken('a');
+
+    vi.advanceTimersByTime(10_000);
+    expect(takeToken('a')).toBe(10_000);
+    vi.advanceTimersByTime(10_000);
+    expect(takeToken('a')).toBe(0);
+
+    // A long idle spell doesn't bank more than the limit
+    vi.advanceTimersByTime(10 * 60_000);
+    expect([takeToken('a'), takeToken('a'), takeToken('a'), takeToken('a')]).toEqual([0, 0, 0, 20_000]);
+  });
+});
+
+describe('proxy handler', () => {
+  const config = proxyConfigFromEnv({ VISION_API_KEY: 'server-key' });
+  let handler: ReturnType<typeof createProxyHandler>;
+  /** What the vision service answers the proxy with */
+  let upstream: () => Response;
+
+  const server = http.createServer((request, response) => {
+    handler(request, response, () => {
+      response.writeHead(404);
+      response.end();
+    });
+  });
+  let baseUrl = '';
+
+  const post = (path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    handler = createProxyHandler(config);
+    upstream = () => new Response('', { status: 404 });
+    // Requests to the proxy go out for real; the proxy's own to the vision service are answered here
+    setTransport((url, init) => (url.startsWith(baseUrl) ? fetch(url, init) : Promise.resolve(upstream())));
+  });
+
+  afterEach(() => {
+    setTransport(null);
+  });
+
+  it('allows the published app by default', async () => {
+    expect(config.allowedOrigin).toBe(APP_ORIGIN);
+
+    const response = await fetch(`${baseUrl}/api/scan`, { method: 'OPTIONS' });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://adr2370.github.io');
+    expect(response.headers.get('access-control-allow-methods')).toBe('POST, OPTIONS');
+  });
+
+  it('refuses clients over the rate limit with Retry-After', async () => {
+    handler = createProxyHandler({ ...config, rateLimit: 1 });
+    upstream = () => new Response('{"candidates":[]}', { status: 400 });
+    await post('/api/scan', { image: IMAGE, mode: 'inventory' });
+
+    const response = await post('/api/scan', { image: IMAGE, mode: 'inventory' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('60');
+  });
+
+  it('passes on a rejected key with its kind, without naming the key', async () => {
+    upstream = () => Response.json({ error: { message: 'API key not valid. Please pass a valid API key.' } }, { status: 400 });
+
+    const response = await post('/api/scan', { image: IMAGE, mode: 'inventory' });
+
+    expect(response.status).toBe(PASSED_ON_STATUS);
+    expect(await response.json()).toEqual({
+      error: { message: "The proxy's vision API key was rejected", kind: 'invalid-key' },
+    });
+  });
+
+  it.each([
+    [400, 'API key not valid. Please pass a valid API key.', 'invalid-key'],
+    [404, 'models/gemini-0 is not found', 'request'],
+  ])('gives the app the kind of an upstream HTTP %i', async (status, message, kind) => {
+    upstream = () => Response.json({ error: { message } }, { status });
+
+    const failure = createProxyProvider(baseUrl).scan!(IMAGE, 'inventory', [], {});
+
+    await expect(failure).rejects.toBeInstanceOf(RequestError);
+    await expect(failure).rejects.toMatchObject({ kind, status: PASSED_ON_STATUS });
+  });
+
+  it('leaves other paths to the next handler', async () => {
+    expect((await post('/api/other', {})).status).toBe(404);
+  });
+});
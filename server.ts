@@ -0,0 +1,314 @@
+/**
+ * Scan proxy: holds the vision API key on the server, so the app can scan
+ * without one. Point the app's Scan Proxy URL setting at it.
+ * Run with: npm run server, or mount it on the Vite dev server (DEV_PROXY=true)
+ */
+
+import * as http from 'http';
+import { pathToFileURL } from 'url';
+import type { ScanMode, VisionProviderType } from './src/types';
+import type { VisionProvider } from './src/utils/vision';
+import { identifyCardsInImage } from './src/utils/vision';
+import { fetchSheetData } from './src/utils/sheets';
+import { createVisionProvider } from './src/utils/providers';
+import { RequestError, isAbortError } from './src/utils/errors';
+import type { RequestErrorKind } from './src/utils/errors';
+import { ModelOutputError } from './src/utils/modelOutput';
+import { PASSED_ON_STATUS } from './src/utils/proxy';
+import type { ProxyScanRequest, ProxySheetRequest } from './src/utils/proxy';
+
+export interface ProxyConfig {
+  visionProvider: VisionProviderType;
+  visionApiKey: string;
+  visionEndpoint: string;
+  visionModel: string;
+  /** Requests each client may make per minute, over both endpoints */
+  rateLimit: number;
+  /** Value of Access-Control-Allow-Origin: where the app calling the proxy is served from */
+  allowedOrigin: string;
+  /** Identify clients by X-Forwarded-For, when running behind a reverse proxy */
+  trustForwardedFor: boolean;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_RATE_LIMIT = 20;
+/** Where the app is published (the homepage in package.json) */
+export const APP_ORIGIN = 'https://adr2370.github.io';
+const RATE_WINDOW_MS = 60_000;
+/** Photos are shrunk before upload, but originals can be sent too */
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+/** Above this many tracked clients, idle ones are forgotten */
+const MAX_TRACKED_CLIENTS = 1000;
+
+/**
+ * Thrown for requests the proxy refuses; sent back with its status
+ */
+class ProxyError extends Error {
+  status: number;
+  retryAfterMs: number | null;
+
+  constructor(message: string, status: number, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'ProxyError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Reads the configuration from environment variables; the vision ones are
+ * the same as the CLI's
+ */
+export function proxyConfigFromEnv(env: Record<string, string | undefined>): ProxyConfig {
+  return {
+    visionProvider: (env.VISION_PROVIDER as VisionProviderType | undefined) ?? 'gemini',
+    visionApiKey: env.VISION_API_KEY ?? env.GEMINI_API_KEY ?? '',
+    visionEndpoint: env.VISION_ENDPOINT ?? '',
+    visionModel: env.VISION_MODEL ?? '',
+    rateLimit: Number(env.PROXY_RATE_LIMIT) || DEFAULT_RATE_LIMIT,
+    allowedOrigin: env.PROXY_ALLOWED_ORIGIN ?? APP_ORIGIN,
+    trustForwardedFor: env.PROXY_TRUST_FORWARDED_FOR === 'true',
+  };
+}
+
+/**
+ * Token bucket per client: `limit` requests, refilled evenly over a minute.
+ * Returns 0 when the request may go ahead, otherwise how long to wait.
+ */
+export function createRateLimiter(limit: number) {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return (client: string): number => {
+    const now = Date.now();
+    if (buckets.size > MAX_TRACKED_CLIENTS) {
+      for (const [id, bucket] of buckets) {
+        if (now - bucket.updatedAt > RATE_WINDOW_MS) buckets.delete(id);
+      }
+    }
+
+    const bucket = buckets.get(client) ?? { tokens: limit, updatedAt: now };
+    bucket.tokens = Math.min(limit, bucket.tokens + ((now - bucket.updatedAt) / RATE_WINDOW_MS) * limit);
+    bucket.updatedAt = now;
+    buckets.set(client, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - bucket.tokens) / limit) * RATE_WINDOW_MS);
+  };
+}
+
+function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading; the connection is closed once the 413 is sent
+        request.removeAllListeners('data');
+        request.pause();
+        reject(new ProxyError('The request is too large', 413));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new ProxyError('The request body is not valid JSON', 400));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Sends a JSON reply; errors use the Google-style `{ error: { message } }`
+ * body the app already reads, plus `kind` for failures passed on
+ */
+function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+interface Failure {
+  status: number;
+  message: string;
+  kind: RequestErrorKind | null;
+  retryAfterMs: number | null;
+}
+
+/**
+ * The status to answer a failure with. Failures of the vision or sheet
+ * service, already retried here, are passed on with their kind and a
+ * status the app doesn't retry after; the proxy's own keep theirs.
+ */
+function describeFailure(error: unknown): Failure {
+  if (error instanceof ProxyError) {
+    return { status: error.status, message: error.message, kind: null, retryAfterMs: error.retryAfterMs };
+  }
+  if (error instanceof RequestError) {
+    const passedOn = { status: PASSED_ON_STATUS, message: error.message, kind: error.kind, retryAfterMs: null };
+    if (error.kind === 'network') {
+      // From the app's side the proxy failed, rather than the app's connection
+      return { ...passedOn, kind: 'server' };
+    }
+    if (error.kind === 'invalid-key') {
+      return { ...passedOn, message: "The proxy's vision API key was rejected" };
+    }
+    return passedOn;
+  }
+  if (error instanceof ModelOutputError) {
+    return { status: 422, message: error.message, kind: null, retryAfterMs: null };
+  }
+  console.error(error);
+  return { status: 500, message: 'The scan proxy failed', kind: null, retryAfterMs: null };
+}
+
+function parseScanRequest(body: unknown): ProxyScanRequest {
+  const request = body as Partial<ProxyScanRequest> | null;
+  if (typeof request?.image !== 'string' || !request.image) {
+    throw new ProxyError('"image" must be the photo as a data URL or base64', 400);
+  }
+  const mode: ScanMode = request.mode ?? 'missing';
+  if (mode !== 'missing' && mode !== 'inventory') {
+    throw new ProxyError('"mode" must be missing or inventory', 400);
+  }
+  const missingList = request.missingList ?? [];
+  if (!Array.isArray(missingList) || !missingList.every(card => typeof card?.name === 'string')) {
+    throw new ProxyError('"missingList" must be an array of card entries', 400);
+  }
+  return { image: request.image, mode, missingList };
+}
+
+function parseSheetRequest(body: unknown): ProxySheetRequest {
+  const request = body as Partial<ProxySheetRequest> | null;
+  if (typeof request?.sheetUrl !== 'string' || typeof request.columnMapping?.name !== 'string') {
+    throw new ProxyError('"sheetUrl" and "columnMapping" are required', 400);
+  }
+  return { sheetUrl: request.sheetUrl, sheetTab: request.sheetTab ?? '', columnMapping: request.columnMapping };
+}
+
+/**
+ * Handles POST /api/scan and POST /api/sheet, in the (request, response,
+ * next) form of Node and Vite middleware; other paths go to `next`
+ */
+export function createProxyHandler(config: ProxyConfig) {
+  const takeToken = createRateLimiter(config.rateLimit);
+  let provider: VisionProvider | null = null;
+
+  const clientOf = (request: http.IncomingMessage): string => {
+    const forwarded = request.headers['x-forwarded-for'];
+    if (config.trustForwardedFor && typeof forwarded === 'string') {
+      return forwarded.split(',')[0].trim();
+    }
+    return request.socket.remoteAddress ?? 'unknown';
+  };
+
+  const getProvider = (): VisionProvider => {
+    provider ??= createVisionProvider({ ...config, proxyUrl: '' });
+    if (provider.requiresApiKey && !config.visionApiKey) {
+      throw new ProxyError('The scan proxy has no API key; set VISION_API_KEY where it runs', 503);
+    }
+    return provider;
+  };
+
+  return async (request: http.IncomingMessage, response: http.ServerResponse, next: NextFunction): Promise<void> => {
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+    if (path !== '/api/scan' && path !== '/api/sheet') {
+      next();
+      return;
+    }
+
+    const cors = {
+      'Access-Control-Allow-Origin': config.allowedOrigin,
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '600',
+    };
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, cors);
+      response.end();
+      return;
+    }
+
+    // Stop working on the request if the app hangs up
+    const controller = new AbortController();
+    response.on('close', () => {
+      if (!response.writableEnded) controller.abort();
+    });
+
+    const started = Date.now();
+    const client = clientOf(request);
+    let status = 200;
+    try {
+      if (request.method !== 'POST') {
+        throw new ProxyError('Use POST', 405);
+      }
+      const waitMs = takeToken(client);
+      if (waitMs > 0) {
+        throw new ProxyError('Too many requests; wait a moment and try again', 429, waitMs);
+      }
+
+      const body = await readJsonBody(request);
+      if (path === '/api/scan') {
+        const { image, mode, missingList } = parseScanRequest(body);
+        const output = await identifyCardsInImage(image, getProvider(), mode, missingList, { signal: controller.signal });
+        sendJson(response, 200, output, cors);
+      } else {
+        const { sheetUrl, sheetTab, columnMapping } = parseSheetRequest(body);
+        const cards = await fetchSheetData(sheetUrl, sheetTab, columnMapping, controller.signal);
+        sendJson(response, 200, { cards }, cors);
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        status = 499;
+        return;
+      }
+      const { message, kind, retryAfterMs, ...failure } = describeFailure(error);
+      status = failure.status;
+      const retryAfter = retryAfterMs === null ? {} : { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) };
+      // A body left unread can't be skipped on a kept-alive connection
+      const unread = !request.complete;
+      if (unread) {
+        response.on('finish', () => request.destroy());
+      }
+      sendJson(response, status, { error: kind ? { message, kind } : { message } }, {
+        ...cors,
+        ...retryAfter,
+        ...(unread && { Connection: 'close' }),
+      });
+    } finally {
+      console.log(`${request.method} ${path} ${status} ${Date.now() - started}ms ${client}`);
+    }
+  };
+}
+
+function main(): void {
+  const config = proxyConfigFromEnv(process.env);
+  if (createVisionProvider({ ...config, proxyUrl: '' }).requiresApiKey && !config.visionApiKey) {
+    console.error('Set VISION_API_KEY (or GEMINI_API_KEY) to the key the proxy should use');
+    process.exitCode = 1;
+    return;
+  }
+
+  const port = Number(process.env.PROXY_PORT) || DEFAULT_PORT;
+  const handler = createProxyHandler(config);
+  http
+    .createServer((request, response) => {
+      handler(request, response, () => sendJson(response, 404, { error: { message: 'Not found' } }));
+    })
+    .listen(port, () => {
+      console.log(`Scan proxy for ${config.visionProvider} listening on http://localhost:${port}`);
+    });
+}
+
+// Run as a server only when started directly, not when Vite loads the handler
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
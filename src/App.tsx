@@ -1,75 +1,173 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useRef } from 'react';
 import './App.css';
-import type { AppSettings, ScanResult, TabType } from './types';
-import { loadSettings, saveSettings, loadMissingList, saveMissingList } from './utils/storage';
-import { fetchSheetData } from './utils/sheets';
-import { findMissingPokemonInImage } from './utils/vision';
+import type { CardEntry, PendingScan, ScanHistoryEntry, ScanResult, TabType } from './types';
+import { isAbortError, DEFAULT_MAX_ATTEMPTS } from './utils/errors';
+import type { RetryOptions } from './utils/errors';
+import { aggregateScanResults } from './utils/scanQueue';
+import type { ScanQueueItem } from './utils/scanQueue';
+import { describeError } from './utils/statusMessages';
+import type { ShowError, StatusAction, StatusMessage } from './utils/statusMessages';
+import { useBatchScan } from './hooks/useBatchScan';
+import { useCancellableRequests } from './hooks/useCancellableRequests';
+import { useCardLists } from './hooks/useCardLists';
+import { useKeyVault } from './hooks/useKeyVault';
+import { useLiveScan } from './hooks/useLiveScan';
+import { useLoadingOverlay } from './hooks/useLoadingOverlay';
+import { usePendingScans } from './hooks/usePendingScans';
+import { useScanHistory } from './hooks/useScanHistory';
+import { useScanner } from './hooks/useScanner';
+import { useSettings } from './hooks/useSettings';
+import { useSheetSync } from './hooks/useSheetSync';
+import { useWriteBack } from './hooks/useWriteBack';
+import { BatchQueue } from './components/BatchQueue';
+import { CapturePreview } from './components/CapturePreview';
+import { HistoryTab } from './components/HistoryTab';
+import { LoadingOverlay } from './components/LoadingOverlay';
+import { MissingListTab } from './components/MissingListTab';
+import { PendingQueue } from './components/PendingQueue';
+import { ScanReport } from './components/ScanReport';
+import { ScanResults } from './components/ScanResults';
+import { SettingsTab } from './components/SettingsTab';
+import { Viewfinder } from './components/Viewfinder';
+import { WriteBackPreview } from './components/WriteBackPreview';
+
+// Browsers without getUserMedia fall back to the native camera picker
+const SUPPORTS_VIEWFINDER = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
 
 function App() {
   const [activeTab, setActiveTab] = useState<TabType>('scan');
-  const [settings, setSettings] = useState<AppSettings>(loadSettings);
-  const [missingList, setMissingList] = useState<string[]>(loadMissingList);
+  const settingsState = useSettings();
+  const { settings } = settingsState;
+  // A key at startup can only come from settings saved before the key vault
+  const [statusMessage, setStatusMessage] = useState<StatusMessage | null>(() => settings.visionApiKey
+    ? {
+      type: 'info',
+      text: 'Your API key is saved unencrypted. Choose a passphrase to encrypt it, or keep it only until the app is closed.',
+      action: { label: 'Save API key', field: 'apiKeyStorage' },
+    }
+    : null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [scanResults, setScanResults] = useState<ScanResult[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState('');
-  const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error' | 'loading'; text: string } | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedResult, setSelectedResult] = useState<number | null>(null);
+  const [showViewfinder, setShowViewfinder] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
 
-  // Save settings when they change
-  useEffect(() => {
-    saveSettings(settings);
-  }, [settings]);
-
-  // Save missing list when it changes
-  useEffect(() => {
-    saveMissingList(missingList);
-  }, [missingList]);
-
-  const handleSettingChange = (key: keyof AppSettings, value: string) => {
-    setSettings(prev => ({ ...prev, [key]: value }));
+  // Cancelled requests need no message; others get guidance from describeError
+  const showError: ShowError = (error, fallback, source) => {
+    setStatusMessage(isAbortError(error) ? null : { type: 'error', ...describeError(error, fallback, source) });
   };
 
-  const handleLoadSheet = async () => {
-    if (!settings.sheetUrl) {
-      setStatusMessage({ type: 'error', text: 'Please enter a Google Sheet URL' });
-      return;
-    }
-
-    setIsLoading(true);
-    setLoadingMessage('Loading missing list from Google Sheets...');
-    setStatusMessage(null);
+  const { runningRequests, runCancellable, cancelRequests } = useCancellableRequests();
+  const { isLoading, loadingMessage, setLoadingMessage, withLoading } = useLoadingOverlay();
+  const lists = useCardLists();
+  const { missingList, ownedList } = lists;
+  const history = useScanHistory();
+  const keyVault = useKeyVault({ settings, changeSetting: settingsState.changeSetting, withLoading, setStatusMessage });
+  const scanner = useScanner({
+    settings,
+    lists,
+    isKeyLocked: keyVault.isKeyLocked,
+    recordScan: history.recordScan,
+    setStatusMessage,
+    setActiveTab,
+  });
+  const pending = usePendingScans({
+    settings,
+    missingList,
+    scanner,
+    setStatusMessage,
+    showHistory: () => setActiveTab('history'),
+  });
+  const writeBack = useWriteBack({ settings, lists, withLoading, setStatusMessage, showError });
+  const batch = useBatchScan({
+    missingList,
+    ownedList,
+    scanner,
+    queueForLater: pending.queueForLater,
+    runCancellable,
+    setStatusMessage,
+    onStart: writeBack.discard,
+  });
+  const live = useLiveScan({
+    scanner,
+    runCancellable,
+    cancelRequests,
+    onStart: () => {
+      batch.replaceBatch([]);
+      setStatusMessage(null);
+    },
+  });
+  const sheetSync = useSheetSync({
+    settings,
+    setSettings: settingsState.setSettings,
+    lists,
+    runCancellable,
+    withLoading,
+    setStatusMessage,
+    showError,
+  });
+
+  // Tells the user why the request behind the loading overlay is waiting
+  const showRetry: RetryOptions['onRetry'] = (error, attempt, delayMs) => {
+    const reason = error.kind === 'rate-limit' ? 'Rate limited' : error.kind === 'network' ? 'Connection problem' : 'Server error';
+    setLoadingMessage(`${reason}, trying again in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${DEFAULT_MAX_ATTEMPTS})...`);
+  };
 
-    try {
-      const cards = await fetchSheetData(settings.sheetUrl, settings.sheetTab || '', settings.sheetColumn || 'A');
-      setMissingList(cards);
-      setStatusMessage({ type: 'success', text: `Loaded ${cards.length} cards from sheet` });
-    } catch (error) {
-      setStatusMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load sheet' });
-    } finally {
-      setIsLoading(false);
-      setLoadingMessage('');
-    }
+  // Jumps to the settings field named in a status message
+  const handleStatusAction = (action: StatusAction) => {
+    setActiveTab('settings');
+    requestAnimationFrame(() => {
+      const field = document.getElementById(`setting-${action.field}`);
+      field?.scrollIntoView({ block: 'center' });
+      field?.focus();
+    });
   };
 
-  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Shows a photo in the scan tab, with the results of an earlier scan if there are any
+  const showPhoto = (image: string, results: ScanResult[] = []) => {
+    setCapturedImage(image);
+    setScanResults(results);
+    setSelectedResult(null);
+    writeBack.discard();
+  };
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result as string;
-      setCapturedImage(result);
-      setScanResults([]);
-    };
-    reader.readAsDataURL(file);
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length === 0) return;
+
+    setScanResults([]);
+    setSelectedResult(null);
+    writeBack.discard();
+    live.clearLive();
+
+    const readFile = (file: File) => new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+
+    Promise.all(files.map(readFile))
+      .then(images => {
+        // Several photos: queue them up and show the first
+        batch.replaceBatch(images.length === 1 ? [] : images.map((image, index) => ({
+          id: crypto.randomUUID(),
+          fileName: files[index].name,
+          image,
+          status: 'pending',
+          attempts: 0,
+          results: [],
+          error: null,
+        })));
+        setCapturedImage(images[0]);
+      })
+      .catch(() => setStatusMessage({ type: 'error', text: 'Could not read the selected photos' }));
 
     // Reset input so same file can be selected again
     event.target.value = '';
-  }, []);
+  };
 
   const handleScan = async () => {
     if (!capturedImage) {
@@ -77,74 +175,163 @@ function App() {
       return;
     }
 
-    if (!settings.visionApiKey) {
-      setStatusMessage({ type: 'error', text: 'Please enter your Gemini API key in Settings' });
-      setActiveTab('settings');
-      return;
+    // Offline, queue the photo for a full scan later and read what we can now
+    const queuedNote = scanner.isOffline() ? '. Queued for a full scan when back online' : '';
+    if (queuedNote) {
+      await pending.queueForLater([capturedImage]);
+      if (missingList.length === 0 && ownedList.length === 0) {
+        setStatusMessage({ type: 'success', text: "You're offline. This photo will be scanned when you're back online" });
+        return;
+      }
     }
 
-    if (missingList.length === 0) {
-      setStatusMessage({ type: 'error', text: 'Please load your missing list from Google Sheets first' });
-      setActiveTab('settings');
-      return;
-    }
+    const provider = scanner.prepareScan();
+    if (!provider) return;
 
-    setIsLoading(true);
-    setLoadingMessage('Analyzing image with Gemini AI...');
     setStatusMessage(null);
+    setScanResults([]);
+    setSelectedResult(null);
+    writeBack.discard();
+
+    await withLoading(`Analyzing image with ${provider.name}...`, async () => {
+      try {
+        const { results, truncated } = await runCancellable('overlay', signal => scanner.scanImage(capturedImage, provider, {
+          retry: { signal, onRetry: showRetry },
+          // Show cards as the reply streams in
+          onPartial: partial => {
+            setScanResults(partial);
+            setLoadingMessage(`Analyzing image with ${provider.name}... ${partial.length} cards so far`);
+          },
+        }));
+
+        setScanResults(results);
+
+        const needCount = results.filter(result => result.status === 'need').length;
+        const offlineNote = provider.promptable === false ? ' (read on this device, less reliable)' : '';
+        const truncatedNote = truncated ? '. The reply was cut short, so some cards may be missing' : '';
+        if (results.length === 0) {
+          setStatusMessage({
+            type: 'success',
+            text: (settings.scanMode === 'inventory'
+              ? 'No readable cards found in this image'
+              : 'No missing Pokemon found in this image') + offlineNote + truncatedNote + queuedNote
+          });
+        } else if (needCount === 0) {
+          setStatusMessage({
+            type: 'success',
+            text: `Read ${results.length} cards, none from your missing list${offlineNote}${truncatedNote}${queuedNote}`
+          });
+        } else {
+          setStatusMessage({
+            type: 'success',
+            text: `Found ${needCount} Pokemon from your missing list!${offlineNote}${truncatedNote}${queuedNote}`
+          });
+        }
+      } catch (error) {
+        if (isAbortError(error)) {
+          setStatusMessage({ type: 'loading', text: 'Scan cancelled. Any cards shown were found before cancelling' });
+        } else {
+          showError(error, 'Failed to scan image', scanner.visionSource);
+        }
+      }
+    });
+  };
+
+  const handleViewfinderCapture = (image: string) => {
+    setShowViewfinder(false);
+    batch.replaceBatch([]);
+    live.clearLive();
+    showPhoto(image);
+  };
+
+  const handleStartLiveScan = (): boolean => {
+    if (!live.startLive()) {
+      setShowViewfinder(false);
+      return false;
+    }
+    return true;
+  };
+
+  const handleCloseViewfinder = () => {
+    live.stopLive();
+    setShowViewfinder(false);
+  };
 
+  const handleOpenPendingScan = (scan: PendingScan) => {
+    batch.replaceBatch([]);
+    showPhoto(scan.image);
+  };
+
+  const handleRemovePendingScan = async (id: number) => {
     try {
-      // Send image and missing list to Gemini 3 Pro
-      const foundPokemon = await findMissingPokemonInImage(
-        capturedImage,
-        missingList,
-        settings.visionApiKey
-      );
-
-      // Create results - only show Pokemon from our missing list that were found
-      const results: ScanResult[] = foundPokemon.map(name => ({
-        name,
-        status: 'need' as const,
-        confidence: 1.0,
-      }));
-
-      setScanResults(results);
-
-      if (results.length === 0) {
-        setStatusMessage({
-          type: 'success',
-          text: 'No missing Pokemon found in this image'
-        });
-      } else {
-        setStatusMessage({
-          type: 'success',
-          text: `Found ${results.length} Pokemon from your missing list!`
-        });
-      }
+      await pending.removePendingScan(id);
+    } catch (error) {
+      setStatusMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to remove queued photo'
+      });
+    }
+  };
 
+  const handleOpenBatchItem = (item: ScanQueueItem) => {
+    showPhoto(item.image, item.results);
+  };
+
+  const handleOpenHistoryEntry = (entry: ScanHistoryEntry) => {
+    showPhoto(entry.image, entry.results);
+    setStatusMessage(null);
+    setActiveTab('scan');
+  };
+
+  const handleDeleteHistoryEntry = async (id: number) => {
+    try {
+      await history.deleteEntry(id);
     } catch (error) {
       setStatusMessage({
         type: 'error',
-        text: error instanceof Error ? error.message : 'Failed to scan image'
+        text: error instanceof Error ? error.message : 'Failed to delete scan'
       });
-    } finally {
-      setIsLoading(false);
-      setLoadingMessage('');
     }
   };
 
-  const filteredMissingList = missingList.filter(card =>
-    card.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const handlePreviewWriteBack = () => writeBack.preview(scanResults
+    .filter(result => result.status === 'need' && result.card)
+    .map(result => result.card as CardEntry));
+
+  // A tapped box selects its card in the list below, scrolled into view
+  const handleSelectResult = (index: number) => {
+    setSelectedResult(prev => (prev === index ? null : index));
+    document.getElementById(`result-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const { batchItems, isBatchScanning } = batch;
+
+  // One combined report over every photo or live frame scanned so far
+  const batchReport = aggregateScanResults([
+    ...batchItems
+      .filter(item => item.status === 'done')
+      .map(item => ({ source: item.fileName, results: item.results })),
+    ...live.liveBatches,
+  ]);
 
   return (
-    <div className="app">
-      {/* Loading Overlay */}
+    <div className={`app ${isLoading ? 'is-loading' : ''}`}>
       {isLoading && (
-        <div className="loading-overlay">
-          <div className="spinner"></div>
-          <p>{loadingMessage}</p>
-        </div>
+        <LoadingOverlay
+          message={loadingMessage}
+          onCancel={runningRequests.includes('overlay') ? () => cancelRequests('overlay') : undefined}
+        />
+      )}
+
+      {showViewfinder && (
+        <Viewfinder
+          matches={batchReport}
+          onCapture={handleViewfinderCapture}
+          onStartLive={handleStartLiveScan}
+          onFrame={live.scanFrame}
+          onStopLive={live.stopLive}
+          onClose={handleCloseViewfinder}
+        />
       )}
 
       {/* Header */}
@@ -166,6 +353,12 @@ function App() {
         >
           Missing List
         </button>
+        <button
+          className={`tab-btn ${activeTab === 'history' ? 'active' : ''}`}
+          onClick={() => setActiveTab('history')}
+        >
+          History
+        </button>
         <button
           className={`tab-btn ${activeTab === 'settings' ? 'active' : ''}`}
           onClick={() => setActiveTab('settings')}
@@ -180,6 +373,11 @@ function App() {
         {statusMessage && (
           <div className={`status-message ${statusMessage.type}`}>
             {statusMessage.text}
+            {statusMessage.action && (
+              <button className="status-action" onClick={() => handleStatusAction(statusMessage.action!)}>
+                {statusMessage.action.label}
+              </button>
+            )}
           </div>
         )}
 
@@ -189,10 +387,16 @@ function App() {
             {/* Capture Zone */}
             <div
               className={`capture-zone ${capturedImage ? 'has-image' : ''}`}
-              onClick={() => fileInputRef.current?.click()}
+              onClick={() => !isLoading && !isBatchScanning && fileInputRef.current?.click()}
             >
               {capturedImage ? (
-                <img src={capturedImage} alt="Captured" className="preview-image" />
+                <CapturePreview
+                  key={capturedImage}
+                  image={capturedImage}
+                  results={scanResults}
+                  selectedResult={selectedResult}
+                  onSelectResult={handleSelectResult}
+                />
               ) : (
                 <>
                   <div className="capture-icon">📷</div>
@@ -206,6 +410,7 @@ function App() {
               ref={fileInputRef}
               type="file"
               accept="image/*"
+              multiple
               className="hidden-input"
               onChange={handleFileSelect}
             />
@@ -222,165 +427,115 @@ function App() {
             <div className="capture-actions">
               <button
                 className="btn-capture"
-                onClick={() => cameraInputRef.current?.click()}
+                onClick={() => (SUPPORTS_VIEWFINDER ? setShowViewfinder(true) : cameraInputRef.current?.click())}
+                disabled={isLoading || isBatchScanning}
               >
                 📷 Camera
               </button>
               <button
                 className="btn-capture"
                 onClick={() => fileInputRef.current?.click()}
+                disabled={isLoading || isBatchScanning}
               >
                 🖼️ Gallery
               </button>
             </div>
 
             {/* Scan Button */}
-            <button
-              className="btn-scan"
-              onClick={handleScan}
-              disabled={!capturedImage || isLoading}
-            >
-              {isLoading ? 'Scanning...' : 'Scan for Missing Cards'}
-            </button>
+            {batchItems.length > 0 ? (
+              <button
+                className="btn-scan"
+                onClick={() => batch.scanBatch()}
+                disabled={isBatchScanning || batchItems.every(item => item.status === 'done')}
+              >
+                {isBatchScanning
+                  ? `Scanning ${batch.finishedCount}/${batchItems.length}...`
+                  : `Scan ${batchItems.filter(item => item.status !== 'done').length} Photos`}
+              </button>
+            ) : (
+              <button
+                className="btn-scan"
+                onClick={handleScan}
+                disabled={!capturedImage || isLoading}
+              >
+                {isLoading
+                  ? 'Scanning...'
+                  : settings.scanMode === 'inventory' ? 'Scan All Cards' : 'Scan for Missing Cards'}
+              </button>
+            )}
 
-            {/* Results */}
-            {scanResults.length > 0 && (
-              <div className="results-panel">
-                <div className="results-summary">
-                  <div className="summary-card missing">
-                    <div className="count">{scanResults.length}</div>
-                    <div className="label">Found Missing</div>
-                  </div>
-                </div>
-
-                <div className="results-list">
-                  <h3>Missing Pokemon in Photo</h3>
-                  {scanResults.map((result, index) => (
-                    <div key={index} className="result-item">
-                      <span className="result-name">{result.name}</span>
-                      <span className="result-status need">NEED</span>
-                    </div>
-                  ))}
-                </div>
-              </div>
+            {scanner.uploadInfo && <p className="setting-hint upload-info">{scanner.uploadInfo}</p>}
+
+            {batchItems.length > 0 && (
+              <BatchQueue
+                items={batchItems}
+                finishedCount={batch.finishedCount}
+                isScanning={isBatchScanning}
+                currentImage={capturedImage}
+                onOpen={handleOpenBatchItem}
+                onRetry={batch.scanBatch}
+                onCancel={() => cancelRequests('batch')}
+              />
             )}
-          </div>
-        )}
 
-        {/* Missing List Tab */}
-        {activeTab === 'list' && (
-          <div className="missing-list-panel">
-            <div className="list-stats">
-              <div className="stat-badge">
-                <div className="number">{missingList.length}</div>
-                <div className="text">Cards Missing</div>
-              </div>
-            </div>
+            {pending.pendingScans.length > 0 && (
+              <PendingQueue
+                scans={pending.pendingScans}
+                isOnline={pending.isOnline}
+                isSyncing={pending.isSyncing}
+                currentImage={capturedImage}
+                onOpen={handleOpenPendingScan}
+                onRemove={handleRemovePendingScan}
+                onSync={() => pending.syncPendingScans({ retryHeld: true })}
+              />
+            )}
+
+            {batchReport.length > 0 && <ScanReport report={batchReport} />}
 
-            {missingList.length > 0 ? (
-              <>
-                <div className="search-box">
-                  <span>🔍</span>
-                  <input
-                    type="text"
-                    placeholder="Search missing cards..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+            {scanResults.length > 0 && (
+              <ScanResults results={scanResults} selectedResult={selectedResult} onSelectResult={setSelectedResult}>
+                {/* Sheet Write-Back */}
+                {settings.oauthClientId && scanResults.some(result => result.status === 'need') && !writeBack.writeBackPlan && (
+                  <button
+                    className="btn-secondary"
+                    onClick={handlePreviewWriteBack}
+                    disabled={isLoading}
+                  >
+                    Mark Found Cards in Sheet
+                  </button>
+                )}
+
+                {writeBack.writeBackPlan && (
+                  <WriteBackPreview
+                    plan={writeBack.writeBackPlan}
+                    isLoading={isLoading}
+                    onApply={writeBack.apply}
+                    onCancel={writeBack.discard}
                   />
-                </div>
-
-                <div className="missing-cards-list">
-                  {filteredMissingList.map((card, index) => (
-                    <div key={index} className="missing-card-item">
-                      {card}
-                    </div>
-                  ))}
-                  {filteredMissingList.length === 0 && searchQuery && (
-                    <div className="empty-state">
-                      <p>No cards matching "{searchQuery}"</p>
-                    </div>
-                  )}
-                </div>
-              </>
-            ) : (
-              <div className="empty-state">
-                <div className="icon">📋</div>
-                <p>No missing list loaded.<br />Go to Settings to connect your Google Sheet.</p>
-              </div>
+                )}
+              </ScanResults>
             )}
           </div>
         )}
 
-        {/* Settings Tab */}
-        {activeTab === 'settings' && (
-          <div className="settings-panel">
-            <div className="setting-group">
-              <label>Google Sheet URL</label>
-              <input
-                type="url"
-                placeholder="https://docs.google.com/spreadsheets/d/..."
-                value={settings.sheetUrl}
-                onChange={(e) => handleSettingChange('sheetUrl', e.target.value)}
-              />
-              <p className="setting-hint">
-                Your sheet must be publicly accessible (Share → Anyone with the link can view)
-              </p>
-            </div>
-
-            <div className="setting-group">
-              <label>Sheet Tab Name</label>
-              <input
-                type="text"
-                placeholder="Sheet2"
-                value={settings.sheetTab}
-                onChange={(e) => handleSettingChange('sheetTab', e.target.value)}
-              />
-              <p className="setting-hint">
-                Enter the name of the tab containing your missing list (leave empty for first tab)
-              </p>
-            </div>
-
-            <div className="setting-group">
-              <label>Column with Pokemon Names</label>
-              <input
-                type="text"
-                placeholder="A"
-                value={settings.sheetColumn}
-                onChange={(e) => handleSettingChange('sheetColumn', e.target.value.toUpperCase())}
-                maxLength={2}
-              />
-              <p className="setting-hint">
-                Enter the column letter that contains your missing Pokemon names (e.g., A, B, C)
-              </p>
-            </div>
+        {activeTab === 'list' && (
+          <MissingListTab settings={settings} lists={lists} setStatusMessage={setStatusMessage} />
+        )}
 
-            <button
-              className="btn-primary"
-              onClick={handleLoadSheet}
-              disabled={!settings.sheetUrl || isLoading}
-            >
-              {isLoading ? 'Loading...' : 'Load Missing List'}
-            </button>
-
-            <div className="setting-group">
-              <label>Google Gemini API Key</label>
-              <input
-                type="password"
-                placeholder="Enter your API key"
-                value={settings.visionApiKey}
-                onChange={(e) => handleSettingChange('visionApiKey', e.target.value)}
-              />
-              <p className="setting-hint">
-                Get an API key from Google AI Studio (aistudio.google.com)
-              </p>
-            </div>
+        {activeTab === 'history' && (
+          <HistoryTab history={history.scanHistory} onOpen={handleOpenHistoryEntry} onDelete={handleDeleteHistoryEntry} />
+        )}
 
-            {missingList.length > 0 && (
-              <div className="status-message success">
-                {missingList.length} cards loaded from sheet
-              </div>
-            )}
-          </div>
+        {activeTab === 'settings' && (
+          <SettingsTab
+            settingsState={settingsState}
+            sheetSync={sheetSync}
+            keyVault={keyVault}
+            missingCount={missingList.length}
+            isLoading={isLoading}
+            withLoading={withLoading}
+            setStatusMessage={setStatusMessage}
+          />
         )}
       </main>
     </div>
@@ -0,0 +1,77 @@
+import type { ApiKeyStorage, AppSettings } from '../types';
+import type { KeyVaultState } from '../hooks/useKeyVault';
+
+interface ApiKeySettingsProps {
+  settings: AppSettings;
+  keyVault: KeyVaultState;
+  isLoading: boolean;
+}
+
+/**
+ * Where the vision API key is kept: only for this session, or saved on the
+ * device encrypted with a passphrase
+ */
+export function ApiKeySettings({ settings, keyVault, isLoading }: ApiKeySettingsProps) {
+  const { hasKeyVault, vaultKey, passphrase, setPassphrase, isKeyLocked } = keyVault;
+
+  return (
+    <div className="setting-group">
+      <label>Keep the API Key</label>
+      <select
+        id="setting-apiKeyStorage"
+        value={settings.apiKeyStorage}
+        onChange={(e) => keyVault.changeStorage(e.target.value as ApiKeyStorage)}
+      >
+        <option value="session">Until the app is closed</option>
+        <option value="vault">On this device, encrypted with a passphrase</option>
+      </select>
+      {settings.apiKeyStorage === 'vault' && (isKeyLocked ? (
+        <div className="key-vault-row">
+          <input
+            type="password"
+            placeholder="Passphrase"
+            id="setting-apiKeyPassphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && keyVault.unlock()}
+          />
+          <button className="btn-secondary" onClick={keyVault.unlock} disabled={!passphrase || isLoading}>
+            Unlock
+          </button>
+        </div>
+      ) : vaultKey !== settings.visionApiKey && (
+        <div className="key-vault-row">
+          <input
+            type="password"
+            placeholder="Choose a passphrase"
+            id="setting-apiKeyPassphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && keyVault.save()}
+          />
+          <button
+            className="btn-secondary"
+            onClick={keyVault.save}
+            disabled={!passphrase || !settings.visionApiKey || isLoading}
+          >
+            Save
+          </button>
+        </div>
+      ))}
+      <p className="setting-hint">
+        {settings.apiKeyStorage === 'session'
+          ? 'The key is never saved, so enter it again each time you open the app'
+          : isKeyLocked
+            ? 'Enter your passphrase to use the saved key'
+            : vaultKey === settings.visionApiKey
+              ? 'Saved, encrypted with your passphrase. You will need it each time you open the app'
+              : 'The key is saved once you choose a passphrase. It cannot be recovered without it'}
+      </p>
+      {settings.apiKeyStorage === 'vault' && hasKeyVault && (
+        <button className="btn-link" onClick={keyVault.forget}>
+          Forget saved key
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import type { ScanQueueItem } from '../utils/scanQueue';
+
+interface BatchQueueProps {
+  items: ScanQueueItem[];
+  /** Photos scanned so far, successfully or not */
+  finishedCount: number;
+  isScanning: boolean;
+  /** The photo shown above, highlighted in the queue */
+  currentImage: string | null;
+  onOpen: (item: ScanQueueItem) => void;
+  onRetry: (id: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Progress of a batch of photos, each with its own status and a retry for failures
+ */
+export function BatchQueue({ items, finishedCount, isScanning, currentImage, onOpen, onRetry, onCancel }: BatchQueueProps) {
+  return (
+    <div className="results-list batch-queue">
+      <div className="batch-header">
+        <h3>Photos ({finishedCount}/{items.length})</h3>
+        {isScanning && (
+          <button className="btn-link" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+      </div>
+      <div className="batch-progress">
+        <div
+          className="batch-progress-bar"
+          style={{ width: `${(finishedCount / items.length) * 100}%` }}
+        />
+      </div>
+      {items.map(item => (
+        <div
+          key={item.id}
+          className={`result-item batch-item ${currentImage === item.image ? 'selected' : ''}`}
+          onClick={() => onOpen(item)}
+        >
+          <img src={item.image} alt="" className="batch-thumbnail" />
+          <div className="result-info">
+            <span className="result-name">{item.fileName}</span>
+            <span className="result-details">
+              {item.status === 'pending' && 'Waiting'}
+              {item.status === 'scanning' && (item.attempts > 1 ? `Retrying (attempt ${item.attempts})...` : 'Scanning...')}
+              {item.status === 'done' && `${item.results.length} cards · ${item.results.filter(result => result.status === 'need').length} needed`}
+              {item.status === 'error' && item.error}
+            </span>
+          </div>
+          {item.status === 'error' && !isScanning && (
+            <button
+              className="btn-link"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRetry(item.id);
+              }}
+            >
+              Retry
+            </button>
+          )}
+          <span className={`batch-status ${item.status}`} />
+        </div>
+      ))}
+    </div>
+  );
+}
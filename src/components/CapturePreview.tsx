@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import type { ScanResult } from '../types';
+
+interface CapturePreviewProps {
+  image: string;
+  results: ScanResult[];
+  selectedResult: number | null;
+  /** Called when a card's box is tapped */
+  onSelectResult: (index: number) => void;
+}
+
+/**
+ * The photo being scanned, with a numbered box over each card found in it
+ */
+export function CapturePreview({ image, results, selectedResult, onSelectResult }: CapturePreviewProps) {
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  return (
+    <>
+      <img
+        src={image}
+        alt="Captured"
+        className="preview-image"
+        onLoad={(e) => setImageSize({
+          width: e.currentTarget.naturalWidth,
+          height: e.currentTarget.naturalHeight,
+        })}
+      />
+      {/* Detection overlays: the viewBox matches the image's natural size so
+          preserveAspectRatio lines up with the img's object-fit: contain */}
+      {imageSize && results.some(result => result.box) && (
+        <svg
+          className="detection-overlay"
+          viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+          preserveAspectRatio="xMidYMid meet"
+        >
+          {results.map((result, index) => result.box && (
+            <g
+              key={index}
+              className={`detection-box ${result.status} ${selectedResult === index ? 'selected' : ''}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                onSelectResult(index);
+              }}
+            >
+              <rect
+                x={result.box.x * imageSize.width}
+                y={result.box.y * imageSize.height}
+                width={result.box.width * imageSize.width}
+                height={result.box.height * imageSize.height}
+                vectorEffect="non-scaling-stroke"
+              />
+              <circle
+                cx={result.box.x * imageSize.width}
+                cy={result.box.y * imageSize.height}
+                r={Math.max(imageSize.width, imageSize.height) * 0.022}
+              />
+              <text
+                x={result.box.x * imageSize.width}
+                y={result.box.y * imageSize.height}
+                fontSize={Math.max(imageSize.width, imageSize.height) * 0.026}
+              >
+                {index + 1}
+              </text>
+            </g>
+          ))}
+        </svg>
+      )}
+    </>
+  );
+}
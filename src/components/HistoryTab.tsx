@@ -0,0 +1,41 @@
+import type { ScanHistoryEntry } from '../types';
+
+interface HistoryTabProps {
+  history: ScanHistoryEntry[];
+  onOpen: (entry: ScanHistoryEntry) => void;
+  onDelete: (id: number) => void;
+}
+
+/**
+ * Past scans, newest first; opening one shows its photo and results again
+ */
+export function HistoryTab({ history, onOpen, onDelete }: HistoryTabProps) {
+  return (
+    <div className="history-panel">
+      {history.length > 0 ? (
+        history.map(entry => (
+          <div key={entry.id} className="history-item">
+            <img src={entry.image} alt="" className="history-thumbnail" onClick={() => onOpen(entry)} />
+            <div className="history-info" onClick={() => onOpen(entry)}>
+              <span className="result-name">{new Date(entry.timestamp).toLocaleString()}</span>
+              <span className="result-details">
+                {entry.provider} · {entry.scanMode === 'inventory' ? 'All cards' : 'Missing cards'}
+              </span>
+              <span className="result-details">
+                {entry.results.length} cards · {entry.results.filter(result => result.status === 'need').length} needed
+              </span>
+            </div>
+            <button className="history-delete" title="Delete" onClick={() => onDelete(entry.id)}>
+              🗑️
+            </button>
+          </div>
+        ))
+      ) : (
+        <div className="empty-state">
+          <div className="icon">🕘</div>
+          <p>No scans yet.<br />Scanned photos and their results are kept here.</p>
+        </div>
+      )}
+    </div>
+  );
+}
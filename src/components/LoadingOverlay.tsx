@@ -0,0 +1,23 @@
+interface LoadingOverlayProps {
+  message: string;
+  /** Stops the requests behind the overlay; without it there is no Cancel button */
+  onCancel?: () => void;
+}
+
+/**
+ * Progress bar for the request the user is waiting on; the rest of the app
+ * stays usable underneath
+ */
+export function LoadingOverlay({ message, onCancel }: LoadingOverlayProps) {
+  return (
+    <div className="loading-overlay" role="status">
+      <div className="spinner"></div>
+      <p>{message}</p>
+      {onCancel && (
+        <button className="btn-secondary" onClick={onCancel}>
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+}
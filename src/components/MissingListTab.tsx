@@ -0,0 +1,241 @@
+import { useRef, useState } from 'react';
+import type { AppSettings, CardEntry } from '../types';
+import { formatCardEntry, parseCardEntry } from '../utils/cards';
+import { parseListFile, mergeCardLists, exportCardList, downloadTextFile } from '../utils/listFiles';
+import type { ListFileFormat } from '../utils/listFiles';
+import type { StatusMessage } from '../utils/statusMessages';
+import type { CardLists } from '../hooks/useCardLists';
+
+interface MissingListTabProps {
+  settings: AppSettings;
+  lists: CardLists;
+  setStatusMessage: (message: StatusMessage | null) => void;
+}
+
+/**
+ * The missing list, searchable and editable card by card, with import,
+ * export and undo
+ */
+export function MissingListTab({ settings, lists, setStatusMessage }: MissingListTabProps) {
+  const { missingList, ownedList, updateLists } = lists;
+  const [newCardText, setNewCardText] = useState('');
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editText, setEditText] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const listFileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleUndo = () => {
+    const label = lists.undo();
+    if (label === null) return;
+
+    setEditingIndex(null);
+    setStatusMessage({ type: 'success', text: `Undid: ${label}` });
+  };
+
+  const handleAddCard = () => {
+    if (!newCardText.trim()) return;
+
+    const card = parseCardEntry(newCardText);
+    const { merged, added } = mergeCardLists(missingList, [card]);
+    if (added === 0) {
+      setStatusMessage({ type: 'error', text: `${formatCardEntry(card)} is already on the list` });
+      return;
+    }
+
+    updateLists(`Add ${formatCardEntry(card)}`, merged);
+    setNewCardText('');
+    setStatusMessage(null);
+  };
+
+  const handleDeleteCard = (index: number) => {
+    const card = missingList[index];
+    updateLists(`Remove ${formatCardEntry(card)}`, missingList.filter((_, i) => i !== index));
+  };
+
+  const handleStartRename = (index: number) => {
+    setEditingIndex(index);
+    setEditText(formatCardEntry(missingList[index]));
+  };
+
+  const handleRenameCard = () => {
+    if (editingIndex === null) return;
+
+    const old = missingList[editingIndex];
+    if (!editText.trim() || editText.trim() === formatCardEntry(old)) {
+      setEditingIndex(null);
+      return;
+    }
+
+    // Identity comes from the new text, everything else is kept
+    const parsed = parseCardEntry(editText);
+    const renamed: CardEntry = { ...old, name: parsed.name, setCode: parsed.setCode, number: parsed.number, variant: parsed.variant };
+
+    updateLists(
+      `Rename ${formatCardEntry(old)}`,
+      missingList.map((card, i) => (i === editingIndex ? renamed : card))
+    );
+    setEditingIndex(null);
+  };
+
+  const handleAcquireCard = (index: number) => {
+    const card = missingList[index];
+    updateLists(
+      `Got ${formatCardEntry(card)}`,
+      missingList.filter((_, i) => i !== index),
+      mergeCardLists(ownedList, [card]).merged
+    );
+    setStatusMessage({ type: 'success', text: `Moved ${formatCardEntry(card)} to your owned cards` });
+  };
+
+  const handleImportListFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset input so same file can be selected again
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseListFile(file.name, await file.text(), settings.columnMapping);
+      const { merged, added, duplicates } = mergeCardLists(missingList, imported);
+      updateLists(`Import ${file.name}`, merged);
+      setStatusMessage({
+        type: 'success',
+        text: `Imported ${added} cards from ${file.name}` + (duplicates > 0 ? ` (${duplicates} already on the list)` : ''),
+      });
+    } catch (error) {
+      setStatusMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to import file' });
+    }
+  };
+
+  const handleExportList = (format: ListFileFormat) => {
+    downloadTextFile(exportCardList(missingList, format), `missing-list.${format}`, format);
+  };
+
+  // Keep each card's index in the full list so edits work while searching
+  const filteredMissingList = missingList
+    .map((card, index) => ({ card, index }))
+    .filter(({ card }) => formatCardEntry(card).toLowerCase().includes(searchQuery.toLowerCase()));
+
+  return (
+    <div className="missing-list-panel">
+      <div className="list-stats">
+        <div className="stat-badge">
+          <div className="number">{missingList.length}</div>
+          <div className="text">Cards Missing</div>
+        </div>
+        {ownedList.length > 0 && (
+          <div className="stat-badge">
+            <div className="number">{ownedList.length}</div>
+            <div className="text">Cards Owned</div>
+          </div>
+        )}
+      </div>
+
+      <div className="list-actions">
+        <button className="btn-capture" onClick={() => listFileInputRef.current?.click()}>
+          📂 Import File
+        </button>
+        {(['csv', 'json', 'txt'] as const).map(format => (
+          <button
+            key={format}
+            className="btn-capture"
+            onClick={() => handleExportList(format)}
+            disabled={missingList.length === 0}
+          >
+            ⬇️ {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      <input
+        ref={listFileInputRef}
+        type="file"
+        accept=".csv,.json,.txt,text/csv,application/json,text/plain"
+        className="hidden-input"
+        onChange={handleImportListFile}
+      />
+
+      <div className="add-card-row">
+        <input
+          type="text"
+          placeholder="Add a card, e.g. Charizard ex 199/165"
+          value={newCardText}
+          onChange={(e) => setNewCardText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddCard()}
+        />
+        <button className="btn-capture" onClick={handleAddCard} disabled={!newCardText.trim()}>
+          Add
+        </button>
+      </div>
+
+      {(lists.undoLabel !== null || lists.hasLocalChanges) && (
+        <div className="list-edit-status">
+          {lists.hasLocalChanges && settings.sheetUrl && (
+            <span>Local changes not in your sheet</span>
+          )}
+          {lists.undoLabel !== null && (
+            <button className="btn-link" onClick={handleUndo}>
+              ↶ Undo {lists.undoLabel}
+            </button>
+          )}
+        </div>
+      )}
+
+      {missingList.length > 0 ? (
+        <>
+          <div className="search-box">
+            <span>🔍</span>
+            <input
+              type="text"
+              placeholder="Search missing cards..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+
+          <div className="missing-cards-list">
+            {filteredMissingList.map(({ card, index }) => (
+              <div key={index} className="missing-card-item">
+                {editingIndex === index ? (
+                  <input
+                    className="card-edit-input"
+                    type="text"
+                    value={editText}
+                    autoFocus
+                    onChange={(e) => setEditText(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRenameCard();
+                      if (e.key === 'Escape') setEditingIndex(null);
+                    }}
+                  />
+                ) : (
+                  <div className="card-label" onClick={() => handleStartRename(index)}>
+                    {formatCardEntry(card)}
+                    {card.quantity !== null && card.quantity > 1 && (
+                      <span className="card-rarity">×{card.quantity}</span>
+                    )}
+                    {card.rarity && <span className="card-rarity">{card.rarity}</span>}
+                    {card.notes && <div className="card-notes">{card.notes}</div>}
+                  </div>
+                )}
+                <div className="card-actions">
+                  <button title="Got it" onClick={() => handleAcquireCard(index)}>✅</button>
+                  <button title="Rename" onClick={() => handleStartRename(index)}>✏️</button>
+                  <button title="Remove" onClick={() => handleDeleteCard(index)}>🗑️</button>
+                </div>
+              </div>
+            ))}
+            {filteredMissingList.length === 0 && searchQuery && (
+              <div className="empty-state">
+                <p>No cards matching "{searchQuery}"</p>
+              </div>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="empty-state">
+          <div className="icon">📋</div>
+          <p>No missing list loaded.<br />Go to Settings to connect your Google Sheet, or import a CSV, JSON or text file.</p>
+        </div>
+      )}
+    </div>
+  );
+}
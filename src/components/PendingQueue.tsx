@@ -0,0 +1,58 @@
+import type { PendingScan } from '../types';
+
+interface PendingQueueProps {
+  scans: PendingScan[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  /** The photo shown above, highlighted in the queue */
+  currentImage: string | null;
+  onOpen: (scan: PendingScan) => void;
+  onRemove: (id: number) => void;
+  onSync: () => void;
+}
+
+/**
+ * Photos waiting for a connection to be scanned
+ */
+export function PendingQueue({ scans, isOnline, isSyncing, currentImage, onOpen, onRemove, onSync }: PendingQueueProps) {
+  return (
+    <div className="results-list pending-queue">
+      <div className="pending-header">
+        <h3>{isOnline ? 'Queued photos' : 'Waiting for connection'} ({scans.length})</h3>
+        {isOnline && (
+          <button className="btn-link" onClick={onSync} disabled={isSyncing}>
+            {isSyncing ? 'Scanning...' : 'Scan Now'}
+          </button>
+        )}
+      </div>
+      {scans.map(scan => (
+        <div
+          key={scan.id}
+          className={`result-item batch-item ${currentImage === scan.image ? 'selected' : ''}`}
+          onClick={() => onOpen(scan)}
+        >
+          <img src={scan.image} alt="" className="batch-thumbnail" />
+          <div className="result-info">
+            <span className="result-name">{new Date(scan.timestamp).toLocaleString()}</span>
+            <span className="result-details">
+              {scan.scanMode === 'inventory' ? 'All cards' : 'Missing cards'}
+              {scan.attempts > 0 && ` · ${scan.attempts} failed ${scan.attempts === 1 ? 'attempt' : 'attempts'}`}
+            </span>
+            {scan.lastError && <span className="result-details pending-error">{scan.lastError}</span>}
+            {scan.held && <span className="result-details">Not retried automatically. Scan Now to try again.</span>}
+          </div>
+          <button
+            className="btn-link"
+            disabled={isSyncing}
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove(scan.id);
+            }}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
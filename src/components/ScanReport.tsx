@@ -0,0 +1,40 @@
+import type { AggregatedScanResult } from '../utils/scanQueue';
+
+interface ScanReportProps {
+  report: AggregatedScanResult[];
+}
+
+/**
+ * One combined report over every photo or live frame scanned so far
+ */
+export function ScanReport({ report }: ScanReportProps) {
+  return (
+    <div className="results-panel">
+      <div className="results-summary">
+        {(['need', 'have', 'unknown'] as const).map(status => (
+          <div key={status} className={`summary-card ${status === 'need' ? 'missing' : status === 'have' ? 'found' : 'unknown'}`}>
+            <div className="count">{report.filter(entry => entry.result.status === status).length}</div>
+            <div className="label">{status === 'need' ? 'Need' : status === 'have' ? 'Have' : 'Unknown'}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="results-list">
+        <h3>All Photos</h3>
+        {report.map(({ result, count, sources }, index) => (
+          <div key={index} className="result-item">
+            <div className="result-info">
+              <span className="result-name">
+                {result.name}{count > 1 && ` ×${count}`}
+              </span>
+              <span className="result-details">
+                {[result.set, result.number, sources.join(', ')].filter(Boolean).join(' · ')}
+              </span>
+            </div>
+            <span className={`result-status ${result.status}`}>{result.status.toUpperCase()}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
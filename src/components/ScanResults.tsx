@@ -0,0 +1,71 @@
+import type { ReactNode } from 'react';
+import type { ScanResult } from '../types';
+
+interface ScanResultsProps {
+  results: ScanResult[];
+  selectedResult: number | null;
+  onSelectResult: (index: number | null) => void;
+  /** Shown under the list, for what can be done with the results */
+  children?: ReactNode;
+}
+
+/**
+ * The cards found in the photo shown above, numbered like their boxes on the photo
+ */
+export function ScanResults({ results, selectedResult, onSelectResult, children }: ScanResultsProps) {
+  const counts = {
+    need: results.filter(result => result.status === 'need').length,
+    have: results.filter(result => result.status === 'have').length,
+    unknown: results.filter(result => result.status === 'unknown').length,
+  };
+
+  return (
+    <div className="results-panel">
+      <div className="results-summary">
+        <div className="summary-card missing">
+          <div className="count">{counts.need}</div>
+          <div className="label">Need</div>
+        </div>
+        <div className="summary-card found">
+          <div className="count">{counts.have}</div>
+          <div className="label">Have</div>
+        </div>
+        <div className="summary-card unknown">
+          <div className="count">{counts.unknown}</div>
+          <div className="label">Unknown</div>
+        </div>
+      </div>
+
+      <div className="results-list">
+        <h3>Cards in Photo</h3>
+        {results.map((result, index) => (
+          <div
+            key={index}
+            id={`result-${index}`}
+            className={`result-item ${selectedResult === index ? 'selected' : ''}`}
+            onClick={() => onSelectResult(selectedResult === index ? null : index)}
+          >
+            <span className="result-index">{index + 1}</span>
+            <div className="result-info">
+              <span className="result-name">{result.name}</span>
+              {(result.set || result.number || result.offline || result.detectedName !== result.name) && (
+                <span className="result-details">
+                  {[
+                    result.detectedName !== result.name ? `read as "${result.detectedName}"` : null,
+                    result.set,
+                    result.number,
+                    result.offline ? 'offline OCR, lower confidence' : null,
+                  ].filter(Boolean).join(' · ')}
+                </span>
+              )}
+            </div>
+            <span className="result-confidence">{Math.round(result.confidence * 100)}%</span>
+            <span className={`result-status ${result.status}`}>{result.status.toUpperCase()}</span>
+          </div>
+        ))}
+      </div>
+
+      {children}
+    </div>
+  );
+}
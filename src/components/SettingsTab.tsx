@@ -0,0 +1,395 @@
+import type { ColumnMapping, PreprocessSettings, ScanMode, VisionProviderType, WriteBackSettings } from '../types';
+import { columnLetter } from '../utils/sheets';
+import { loadOcrWorker } from '../utils/providers/ocr';
+import { GEMINI_DEFAULT_ENDPOINT, GEMINI_DEFAULT_MODEL } from '../utils/providers/gemini';
+import { OPENAI_DEFAULT_ENDPOINT, OPENAI_DEFAULT_MODEL } from '../utils/providers/openai';
+import type { StatusMessage } from '../utils/statusMessages';
+import type { KeyVaultState } from '../hooks/useKeyVault';
+import type { WithLoading } from '../hooks/useLoadingOverlay';
+import type { SettingsState } from '../hooks/useSettings';
+import type { SheetSync } from '../hooks/useSheetSync';
+import { ApiKeySettings } from './ApiKeySettings';
+import { SheetMergePreview } from './SheetMergePreview';
+
+const COLUMN_FIELDS: Array<{ field: keyof ColumnMapping; label: string }> = [
+  { field: 'name', label: 'Card name' },
+  { field: 'setCode', label: 'Set' },
+  { field: 'number', label: 'Number' },
+  { field: 'variant', label: 'Variant' },
+  { field: 'rarity', label: 'Rarity' },
+  { field: 'quantity', label: 'Quantity' },
+  { field: 'notes', label: 'Notes' },
+];
+
+interface SettingsTabProps {
+  settingsState: SettingsState;
+  sheetSync: SheetSync;
+  keyVault: KeyVaultState;
+  /** Cards on the missing list, for the summary at the bottom */
+  missingCount: number;
+  isLoading: boolean;
+  withLoading: WithLoading;
+  setStatusMessage: (message: StatusMessage | null) => void;
+}
+
+/**
+ * The sheet connection, scanning options and vision provider setup. Fields
+ * have `setting-<name>` ids so status messages can jump to them.
+ */
+export function SettingsTab({
+  settingsState, sheetSync, keyVault, missingCount, isLoading, withLoading, setStatusMessage,
+}: SettingsTabProps) {
+  const { settings, changeSetting, changeColumnMapping, changePreprocess, changeWriteBack } = settingsState;
+  const { sheetHeaders, sheetMerge } = sheetSync;
+
+  // Loading the OCR engine once while online lets the service worker cache it
+  const handlePrepareOffline = () => withLoading('Downloading offline text recognition...', async () => {
+    try {
+      await loadOcrWorker();
+      setStatusMessage({ type: 'success', text: 'Offline scanning is ready' });
+    } catch (error) {
+      setStatusMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to download offline text recognition'
+      });
+    }
+  });
+
+  // Without fetched headers, offer plain column letters
+  const columnOptions = sheetHeaders.length > 0
+    ? sheetHeaders.map(header => ({ value: header.column, label: `${header.column}: ${header.label || '(no header)'}` }))
+    : Array.from({ length: 26 }, (_, index) => ({ value: columnLetter(index), label: columnLetter(index) }));
+
+  return (
+    <div className="settings-panel">
+      <div className="setting-group">
+        <label>Google Sheet URL</label>
+        <input
+          type="url"
+          placeholder="https://docs.google.com/spreadsheets/d/..."
+          id="setting-sheetUrl"
+          value={settings.sheetUrl}
+          onChange={(e) => changeSetting('sheetUrl', e.target.value)}
+        />
+        <p className="setting-hint">
+          Your sheet must be publicly accessible (Share → Anyone with the link can view)
+        </p>
+      </div>
+
+      <div className="setting-group">
+        <label>Sheet Tab Name</label>
+        <input
+          type="text"
+          placeholder="Sheet2"
+          id="setting-sheetTab"
+          value={settings.sheetTab}
+          onChange={(e) => changeSetting('sheetTab', e.target.value)}
+        />
+        <p className="setting-hint">
+          Enter the name of the tab containing your missing list (leave empty for first tab)
+        </p>
+      </div>
+
+      <div className="setting-group">
+        <label>Sheet Columns</label>
+        <button
+          className="btn-secondary"
+          onClick={sheetSync.fetchHeaders}
+          disabled={!settings.sheetUrl || isLoading}
+        >
+          Fetch Column Headers
+        </button>
+        <div className="column-mapping">
+          {COLUMN_FIELDS.map(({ field, label }) => (
+            <div key={field} className="column-mapping-row">
+              <span>{label}</span>
+              <select
+                value={settings.columnMapping[field]}
+                onChange={(e) => changeColumnMapping(field, e.target.value)}
+              >
+                {field !== 'name' && <option value="">Not mapped</option>}
+                {settings.columnMapping[field] &&
+                  !columnOptions.some(option => option.value === settings.columnMapping[field]) && (
+                    <option value={settings.columnMapping[field]}>{settings.columnMapping[field]}</option>
+                  )}
+                {columnOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+        <p className="setting-hint">
+          Fetch the header row of your missing list tab, then pick which column holds each card field. Only the name is required
+        </p>
+      </div>
+
+      <div className="setting-group">
+        <label>Owned Cards Tab Name</label>
+        <input
+          type="text"
+          placeholder="Optional"
+          value={settings.ownedSheetTab}
+          onChange={(e) => changeSetting('ownedSheetTab', e.target.value)}
+        />
+        <p className="setting-hint">
+          Tab listing the cards you already have, read with the same column mapping. Used to mark scanned cards as HAVE
+        </p>
+      </div>
+
+      <button
+        className="btn-primary"
+        onClick={sheetSync.loadSheet}
+        disabled={!settings.sheetUrl || isLoading}
+      >
+        {isLoading ? 'Loading...' : 'Load Missing List'}
+      </button>
+
+      {sheetMerge && (
+        <SheetMergePreview
+          plan={sheetMerge.plan}
+          onResolve={sheetSync.resolveSheetMerge}
+          onCancel={sheetSync.cancelSheetMerge}
+        />
+      )}
+
+      <div className="setting-group">
+        <label>Google OAuth Client ID</label>
+        <input
+          type="text"
+          placeholder="Optional, for writing back to the sheet"
+          id="setting-oauthClientId"
+          value={settings.oauthClientId}
+          onChange={(e) => changeSetting('oauthClientId', e.target.value.trim())}
+        />
+        <p className="setting-hint">
+          A web client ID from Google Cloud Console with this site as an authorized origin. Enables marking found cards in your sheet
+        </p>
+      </div>
+
+      {settings.oauthClientId && (
+        <div className="setting-group">
+          <label>When a Card Is Found</label>
+          <select
+            value={settings.writeBack.mode}
+            onChange={(e) => changeWriteBack('mode', e.target.value as WriteBackSettings['mode'])}
+          >
+            <option value="mark">Mark it in a column</option>
+            <option value="date">Write today's date in a column</option>
+            <option value="quantity">Decrease its quantity</option>
+            <option value="move">Move the row to the owned cards tab</option>
+          </select>
+          {(settings.writeBack.mode === 'mark' || settings.writeBack.mode === 'date') && (
+            <div className="column-mapping">
+              <div className="column-mapping-row">
+                <span>Column</span>
+                <select
+                  value={settings.writeBack.column}
+                  onChange={(e) => changeWriteBack('column', e.target.value)}
+                >
+                  <option value="">Choose a column</option>
+                  {columnOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              {settings.writeBack.mode === 'mark' && (
+                <div className="column-mapping-row">
+                  <span>Value</span>
+                  <input
+                    type="text"
+                    value={settings.writeBack.markValue}
+                    onChange={(e) => changeWriteBack('markValue', e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          <p className="setting-hint">
+            You'll see every change to the sheet before it is made. Use TRUE as the value to tick a checkbox column
+          </p>
+        </div>
+      )}
+
+      <div className="setting-group">
+        <label>Scan Mode</label>
+        <select
+          value={settings.scanMode}
+          onChange={(e) => changeSetting('scanMode', e.target.value as ScanMode)}
+        >
+          <option value="missing">Missing cards only</option>
+          <option value="inventory">Full inventory</option>
+        </select>
+        <p className="setting-hint">
+          Full inventory reports every readable card as NEED, HAVE or UNKNOWN
+        </p>
+      </div>
+
+      <div className="setting-group">
+        <label>Match Threshold: {Math.round(settings.matchThreshold * 100)}%</label>
+        <input
+          type="range"
+          min={0.5}
+          max={1}
+          step={0.05}
+          value={settings.matchThreshold}
+          onChange={(e) => changeSetting('matchThreshold', Number(e.target.value))}
+        />
+        <p className="setting-hint">
+          How closely a card name read from the photo must match your list. Lower values tolerate more OCR mistakes but risk false matches
+        </p>
+      </div>
+
+      <div className="setting-group">
+        <label>Photo Upload</label>
+        <div className="column-mapping">
+          <div className="column-mapping-row">
+            <span>Long edge</span>
+            <select
+              value={settings.preprocess.maxDimension}
+              onChange={(e) => changePreprocess('maxDimension', Number(e.target.value))}
+            >
+              <option value={1024}>1024 px</option>
+              <option value={1600}>1600 px</option>
+              <option value={2048}>2048 px</option>
+              <option value={3072}>3072 px</option>
+              <option value={0}>Original size</option>
+            </select>
+          </div>
+          <div className="column-mapping-row">
+            <span>Format</span>
+            <select
+              value={settings.preprocess.format}
+              onChange={(e) => changePreprocess('format', e.target.value as PreprocessSettings['format'])}
+            >
+              <option value="jpeg">JPEG</option>
+              <option value="webp">WebP</option>
+            </select>
+          </div>
+          <div className="column-mapping-row">
+            <span>Quality</span>
+            <select
+              value={settings.preprocess.quality}
+              onChange={(e) => changePreprocess('quality', Number(e.target.value))}
+            >
+              <option value={0.7}>70%</option>
+              <option value={0.85}>85%</option>
+              <option value={0.95}>95%</option>
+            </select>
+          </div>
+          <div className="column-mapping-row">
+            <span>Enhance</span>
+            <select
+              value={settings.preprocess.enhance ? 'on' : 'off'}
+              onChange={(e) => changePreprocess('enhance', e.target.value === 'on')}
+            >
+              <option value="off">Off</option>
+              <option value="on">Boost contrast and sharpen</option>
+            </select>
+          </div>
+        </div>
+        <p className="setting-hint">
+          Photos are turned upright, shrunk and re-encoded before upload. Enhance helps with dim or washed-out photos
+        </p>
+      </div>
+
+      <div className="setting-group">
+        <label>Scan Proxy URL</label>
+        <input
+          type="url"
+          placeholder="http://localhost:8787"
+          id="setting-proxyUrl"
+          value={settings.proxyUrl}
+          onChange={(e) => changeSetting('proxyUrl', e.target.value.trim())}
+        />
+        <p className="setting-hint">
+          Optional. Scans and sheet loads go through a scan proxy server (npm run server), which keeps the API
+          key so this device never sees it. Leave empty to call the services directly
+        </p>
+      </div>
+
+      {!settings.proxyUrl && (
+        <div className="setting-group">
+          <label>Vision Provider</label>
+          <select
+            value={settings.visionProvider}
+            onChange={(e) => changeSetting('visionProvider', e.target.value as VisionProviderType)}
+          >
+            <option value="gemini">Google Gemini</option>
+            <option value="openai">OpenAI-compatible</option>
+            <option value="mock">Mock (offline fixtures)</option>
+          </select>
+          <p className="setting-hint">
+            The mock provider replies with canned results for the sample photos, no network needed
+          </p>
+        </div>
+      )}
+
+      {!settings.proxyUrl && settings.visionProvider !== 'mock' && (
+        <>
+          <div className="setting-group">
+            <label>{settings.visionProvider === 'gemini' ? 'Google Gemini API Key' : 'API Key'}</label>
+            <input
+              type="password"
+              placeholder="Enter your API key"
+              id="setting-visionApiKey"
+              value={settings.visionApiKey}
+              onChange={(e) => changeSetting('visionApiKey', e.target.value)}
+            />
+            <p className="setting-hint">
+              {settings.visionProvider === 'gemini'
+                ? 'Get an API key from Google AI Studio (aistudio.google.com)'
+                : 'Leave empty for local servers that do not require a key'}
+            </p>
+          </div>
+
+          <ApiKeySettings settings={settings} keyVault={keyVault} isLoading={isLoading} />
+
+          <div className="setting-group">
+            <label>API Endpoint</label>
+            <input
+              type="url"
+              placeholder={settings.visionProvider === 'gemini' ? GEMINI_DEFAULT_ENDPOINT : OPENAI_DEFAULT_ENDPOINT}
+              id="setting-visionEndpoint"
+              value={settings.visionEndpoint}
+              onChange={(e) => changeSetting('visionEndpoint', e.target.value)}
+            />
+            <p className="setting-hint">
+              Leave empty to use the default endpoint
+            </p>
+          </div>
+
+          <div className="setting-group">
+            <label>Model</label>
+            <input
+              type="text"
+              placeholder={settings.visionProvider === 'gemini' ? GEMINI_DEFAULT_MODEL : OPENAI_DEFAULT_MODEL}
+              value={settings.visionModel}
+              onChange={(e) => changeSetting('visionModel', e.target.value)}
+            />
+            <p className="setting-hint">
+              Must be a model that accepts image input
+            </p>
+          </div>
+        </>
+      )}
+
+      <div className="setting-group">
+        <label>Offline Scanning</label>
+        <button className="btn-secondary" onClick={handlePrepareOffline} disabled={isLoading}>
+          Download Offline Text Recognition
+        </button>
+        <p className="setting-hint">
+          Without a connection or API key, card names are read on this device instead. It is slower and less
+          accurate, and works best on photos of a few cards. Download it once while online to use it offline
+        </p>
+      </div>
+
+      {missingCount > 0 && (
+        <div className="status-message success">
+          {missingCount} cards loaded from sheet
+        </div>
+      )}
+    </div>
+  );
+}
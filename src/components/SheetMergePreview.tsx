@@ -0,0 +1,59 @@
+import type { CardEntry } from '../types';
+import { formatCardEntry } from '../utils/cards';
+import type { ListMergePlan } from '../utils/listMerge';
+
+interface SheetMergePreviewProps {
+  plan: ListMergePlan;
+  /** Keeps the local changes on top of the sheet (true) or uses the sheet as it is */
+  onResolve: (keepLocalChanges: boolean) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Short preview of a list of cards for merge summaries
+ */
+function summarizeCards(cards: CardEntry[], limit: number = 5): string {
+  const names = cards.slice(0, limit).map(formatCardEntry).join(', ');
+  return cards.length > limit ? `${names} and ${cards.length - limit} more` : names;
+}
+
+/**
+ * How a sheet load differs from a locally edited list, with the choice of
+ * merging the two or using the sheet
+ */
+export function SheetMergePreview({ plan, onResolve, onCancel }: SheetMergePreviewProps) {
+  return (
+    <div className="setting-group merge-preview">
+      <label>Your list has local changes</label>
+      <ul>
+        {plan.sheetAdded.length > 0 && (
+          <li>Sheet added {plan.sheetAdded.length}: {summarizeCards(plan.sheetAdded)}</li>
+        )}
+        {plan.sheetRemoved.length > 0 && (
+          <li>Sheet removed {plan.sheetRemoved.length}: {summarizeCards(plan.sheetRemoved)}</li>
+        )}
+        {plan.localAdded.length > 0 && (
+          <li>You added {plan.localAdded.length}: {summarizeCards(plan.localAdded)}</li>
+        )}
+        {plan.localRemoved.length > 0 && (
+          <li>You removed {plan.localRemoved.length}: {summarizeCards(plan.localRemoved)}</li>
+        )}
+      </ul>
+      <p className="setting-hint">
+        Merging keeps your additions and removals on top of the sheet ({plan.merged.length} cards).
+        Using the sheet discards them ({plan.incoming.length} cards). Either can be undone from the Missing List tab.
+      </p>
+      <div className="write-back-actions">
+        <button className="btn-secondary" onClick={onCancel}>
+          Cancel
+        </button>
+        <button className="btn-secondary" onClick={() => onResolve(false)}>
+          Use Sheet
+        </button>
+        <button className="btn-primary" onClick={() => onResolve(true)}>
+          Merge
+        </button>
+      </div>
+    </div>
+  );
+}
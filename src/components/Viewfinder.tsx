@@ -0,0 +1,191 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AggregatedScanResult } from '../utils/scanQueue';
+import { differenceHash, hammingDistance, DUPLICATE_FRAME_DISTANCE, HASH_WIDTH, HASH_HEIGHT } from '../utils/frameHash';
+
+/** How often live mode looks at the camera */
+const FRAME_INTERVAL_MS = 1500;
+
+/** Longer side of the frames sent to the vision provider */
+const FRAME_MAX_DIMENSION = 1600;
+
+interface ViewfinderProps {
+  /** Cards found so far in live mode, shown over the video */
+  matches: AggregatedScanResult[];
+  onCapture: (image: string) => void;
+  /** Checks that scanning can start; false closes the viewfinder */
+  onStartLive: () => boolean;
+  onFrame: (image: string) => Promise<void>;
+  /** Called when live mode is switched off, to cancel the frame in flight */
+  onStopLive: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Copies the current video frame to a JPEG data URL, scaled down to at most `maxDimension`
+ */
+function grabFrame(video: HTMLVideoElement, maxDimension: number): string {
+  const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+}
+
+/**
+ * In-app camera with a binder-page framing guide. Takes single photos, or in
+ * live mode keeps sending the view to the vision provider whenever it has
+ * settled on something new.
+ */
+export function Viewfinder({ matches, onCapture, onStartLive, onFrame, onStopLive, onClose }: ViewfinderProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const hashCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const onFrameRef = useRef(onFrame);
+  const [error, setError] = useState<string | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [stats, setStats] = useState({ sent: 0, skipped: 0 });
+
+  // Live mode always calls the latest handler without restarting its timer
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+  });
+
+  // Start the back camera, and stop it again when the viewfinder closes
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(() => {
+            // Autoplay is allowed for muted inline video; ignore interrupted plays
+          });
+        }
+      })
+      .catch(e => {
+        setError(e instanceof DOMException && e.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in your browser settings, or use the gallery instead.'
+          : 'Could not start the camera');
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // Live mode: hash a tiny copy of each frame and only scan views that are
+  // steady (unchanged since the last look) and new (unlike the last one sent)
+  useEffect(() => {
+    if (!isLive) return;
+
+    let previousHash: bigint | null = null;
+    let sentHash: bigint | null = null;
+    let busy = false;
+
+    const checkFrame = async () => {
+      const video = videoRef.current;
+      if (!video || busy || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+      hashCanvasRef.current ??= Object.assign(document.createElement('canvas'), { width: HASH_WIDTH, height: HASH_HEIGHT });
+      const context = hashCanvasRef.current.getContext('2d', { willReadFrequently: true });
+      if (!context) return;
+      context.drawImage(video, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+      const hash = differenceHash(context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data);
+
+      const isSteady = previousHash !== null && hammingDistance(hash, previousHash) <= DUPLICATE_FRAME_DISTANCE;
+      const isNew = sentHash === null || hammingDistance(hash, sentHash) > DUPLICATE_FRAME_DISTANCE;
+      previousHash = hash;
+
+      if (!isSteady || !isNew) {
+        setStats(prev => ({ ...prev, skipped: prev.skipped + 1 }));
+        return;
+      }
+
+      busy = true;
+      setIsBusy(true);
+      try {
+        await onFrameRef.current(grabFrame(video, FRAME_MAX_DIMENSION));
+        sentHash = hash;
+        setStats(prev => ({ ...prev, sent: prev.sent + 1 }));
+        setError(null);
+      } catch (e) {
+        // Leave sentHash alone so the same view is tried again
+        setError(e instanceof Error ? e.message : 'Failed to scan frame');
+      } finally {
+        busy = false;
+        setIsBusy(false);
+      }
+    };
+
+    const timer = setInterval(checkFrame, FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLive]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+    onCapture(grabFrame(video, Number.POSITIVE_INFINITY));
+  };
+
+  const handleToggleLive = () => {
+    if (isLive) {
+      setIsLive(false);
+      onStopLive();
+    } else if (onStartLive()) {
+      setStats({ sent: 0, skipped: 0 });
+      setIsLive(true);
+    }
+  };
+
+  return (
+    <div className="viewfinder">
+      <video ref={videoRef} className="viewfinder-video" playsInline muted />
+
+      {/* Framing guide for a 3x3 binder page */}
+      <div className="viewfinder-guide">
+        {Array.from({ length: 9 }, (_, index) => <div key={index} className="viewfinder-slot" />)}
+      </div>
+
+      <button className="viewfinder-close" onClick={onClose} aria-label="Close camera">✕</button>
+
+      <div className="viewfinder-panel">
+        {error && <div className="status-message error">{error}</div>}
+
+        {isLive && (
+          <p className="viewfinder-stats">
+            {isBusy ? 'Scanning…' : 'Hold steady on a page'} · {stats.sent} scanned · {stats.skipped} frames skipped
+          </p>
+        )}
+
+        {matches.length > 0 && (
+          <div className="viewfinder-matches">
+            {matches.map(({ result, count }, index) => (
+              <span key={index} className={`viewfinder-match ${result.status}`}>
+                {result.name}{count > 1 && ` ×${count}`}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="viewfinder-controls">
+          <button className="btn-secondary" onClick={handleToggleLive}>
+            {isLive ? '⏸ Stop Live' : '▶ Live Scan'}
+          </button>
+          <button className="btn-primary" onClick={handleCapture} disabled={isLive}>
+            📸 Capture
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
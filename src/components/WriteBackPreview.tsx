@@ -0,0 +1,62 @@
+import { columnLetter } from '../utils/sheets';
+import { formatCardEntry } from '../utils/cards';
+import type { SheetChange, WriteBackPlan } from '../utils/sheetsApi';
+
+interface WriteBackPreviewProps {
+  plan: WriteBackPlan;
+  isLoading: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * One line per cell, row or deletion a write-back would make
+ */
+function describeChange(change: SheetChange): string {
+  switch (change.kind) {
+    case 'update': {
+      const cells = change.after
+        .map((value, index) => ({ column: columnLetter(index), before: change.before[index] ?? '', after: value }))
+        .filter(cell => cell.before !== cell.after)
+        .map(cell => `${cell.column}: "${cell.before}" → "${cell.after}"`);
+      return `${change.tab} row ${change.row}: ${cells.join(', ')}`;
+    }
+    case 'append':
+      return `${change.tab}: add row "${change.after.join(', ')}"`;
+    case 'delete':
+      return `${change.tab} row ${change.row}: delete "${change.before.join(', ')}"`;
+  }
+}
+
+/**
+ * The changes marking found cards would make to the sheet, to confirm before they are made
+ */
+export function WriteBackPreview({ plan, isLoading, onApply, onCancel }: WriteBackPreviewProps) {
+  return (
+    <div className="results-list write-back-preview">
+      <h3>Sheet Changes (preview)</h3>
+      {plan.changes.map((change, index) => (
+        <div key={index} className={`write-back-change ${change.kind}`}>
+          {describeChange(change)}
+        </div>
+      ))}
+      {plan.notFound.map((card, index) => (
+        <div key={`missing-${index}`} className="write-back-change not-found">
+          No row found for {formatCardEntry(card)}
+        </div>
+      ))}
+      <div className="write-back-actions">
+        <button className="btn-secondary" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          className="btn-primary"
+          onClick={onApply}
+          disabled={isLoading || plan.changes.length === 0}
+        >
+          Apply {plan.changes.length} Changes
+        </button>
+      </div>
+    </div>
+  );
+}
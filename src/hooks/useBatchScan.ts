@@ -0,0 +1,110 @@
+import { useRef, useState } from 'react';
+import type { CardEntry } from '../types';
+import { runQueue, BATCH_CONCURRENCY } from '../utils/scanQueue';
+import type { ScanQueueItem } from '../utils/scanQueue';
+import { describeError } from '../utils/statusMessages';
+import type { StatusMessage } from '../utils/statusMessages';
+import type { RunCancellable } from './useCancellableRequests';
+import type { Scanner } from './useScanner';
+
+interface BatchScanOptions {
+  missingList: CardEntry[];
+  ownedList: CardEntry[];
+  scanner: Scanner;
+  queueForLater: (images: string[]) => Promise<void>;
+  runCancellable: RunCancellable;
+  setStatusMessage: (message: StatusMessage | null) => void;
+  /** Called when a batch scan starts */
+  onStart: () => void;
+}
+
+/**
+ * Several photos picked at once, scanned a few at a time
+ */
+export function useBatchScan({
+  missingList, ownedList, scanner, queueForLater, runCancellable, setStatusMessage, onStart,
+}: BatchScanOptions) {
+  const [batchItems, setBatchItems] = useState<ScanQueueItem[]>([]);
+  const [isBatchScanning, setIsBatchScanning] = useState(false);
+  // Bumped whenever the batch is replaced, so a run still going for the old
+  // photos can tell and stop updating the new ones
+  const batchRunRef = useRef(0);
+
+  const replaceBatch = (items: ScanQueueItem[]) => {
+    batchRunRef.current++;
+    setBatchItems(items);
+  };
+
+  // Scans the queued photos that haven't succeeded yet (all of them, or a single retry)
+  const scanBatch = async (onlyId?: string) => {
+    const queue = batchItems.filter(item => (onlyId === undefined ? item.status !== 'done' : item.id === onlyId));
+    if (queue.length === 0) return;
+
+    if (scanner.isOffline()) {
+      await queueForLater(queue.map(item => item.image));
+      if (missingList.length === 0 && ownedList.length === 0) {
+        setStatusMessage({ type: 'success', text: `You're offline. These ${queue.length} photos will be scanned when you're back online` });
+        return;
+      }
+    }
+
+    const provider = scanner.prepareScan();
+    if (!provider) return;
+
+    const run = batchRunRef.current;
+    const isSuperseded = () => run !== batchRunRef.current;
+    const updateItem = (id: string, changes: Partial<ScanQueueItem>) => {
+      if (isSuperseded()) return;
+      setBatchItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    };
+
+    setIsBatchScanning(true);
+    setStatusMessage(null);
+    onStart();
+
+    let failed = 0;
+    let scanned = 0;
+    const cancelled = await runCancellable('batch', async signal => {
+      // Transient failures are retried inside scanImage; the count is shown on the photo
+      const scanItem = (item: ScanQueueItem) => scanner.scanImage(item.image, provider, {
+        retry: { signal, onRetry: (_, attempt) => updateItem(item.id, { attempts: item.attempts + attempt + 1 }) },
+      }).then(scan => scan.results);
+
+      await runQueue(queue, scanItem, {
+        concurrency: BATCH_CONCURRENCY,
+        signal,
+        onStart: item => updateItem(item.id, { status: 'scanning', attempts: item.attempts + 1, error: null }),
+        onSuccess: (item, results) => {
+          scanned++;
+          updateItem(item.id, { status: 'done', results });
+        },
+        onFailure: (item, error) => {
+          failed++;
+          updateItem(item.id, { status: 'error', error: describeError(error, 'Failed to scan image', scanner.visionSource).text });
+        },
+      });
+      return signal.aborted;
+    });
+
+    setIsBatchScanning(false);
+    if (isSuperseded()) return;
+    if (cancelled) {
+      // Photos stopped mid-scan can be scanned again
+      setBatchItems(prev => prev.map(item => (item.status === 'scanning' ? { ...item, status: 'pending' } : item)));
+      setStatusMessage({ type: 'loading', text: `Batch cancelled after ${scanned} of ${queue.length} photos` });
+      return;
+    }
+    setStatusMessage(failed > 0
+      ? { type: 'error', text: `${failed} of ${queue.length} photos could not be scanned. Retry them below.` }
+      : { type: 'success', text: `Scanned ${queue.length} photos` });
+  };
+
+  return {
+    batchItems,
+    isBatchScanning,
+    /** Photos scanned so far, successfully or not */
+    finishedCount: batchItems.filter(item => item.status === 'done' || item.status === 'error').length,
+    replaceBatch,
+    scanBatch,
+  };
+}
@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * What started a request, and so which Cancel control stops it: the loading
+ * overlay, a batch scan, or live scanning in the viewfinder
+ */
+export type RequestGroup = 'overlay' | 'batch' | 'live';
+
+/**
+ * Gives every request its own AbortController, grouped by what started it.
+ * `runningRequests` lists the groups with requests still running, for their
+ * Cancel controls. Requests still running when the app goes away are aborted.
+ */
+export function useCancellableRequests() {
+  // Every running request's own controller, with what started it
+  const requestsRef = useRef(new Map<AbortController, RequestGroup>());
+  const [runningRequests, setRunningRequests] = useState<RequestGroup[]>([]);
+
+  // Don't leave requests running after the app goes away
+  useEffect(() => {
+    const requests = requestsRef.current;
+    return () => requests.forEach((_, controller) => controller.abort());
+  }, []);
+
+  // Runs a request with its own AbortSignal. Other requests keep running;
+  // cancelRequests stops the ones from the same group.
+  const runCancellable = async <T>(group: RequestGroup, request: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    const requests = requestsRef.current;
+    requests.set(controller, group);
+    setRunningRequests([...requests.values()]);
+    try {
+      return await request(controller.signal);
+    } finally {
+      requests.delete(controller);
+      setRunningRequests([...requests.values()]);
+    }
+  };
+
+  const cancelRequests = (group: RequestGroup) => {
+    requestsRef.current.forEach((requestGroup, controller) => {
+      if (requestGroup === group) controller.abort();
+    });
+  };
+
+  return { runningRequests, runCancellable, cancelRequests };
+}
+
+export type RunCancellable = ReturnType<typeof useCancellableRequests>['runCancellable'];
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import type { CardEntry } from '../types';
+import {
+  loadMissingList, saveMissingList, loadOwnedList, saveOwnedList, loadSheetSnapshot, saveSheetSnapshot,
+} from '../utils/storage';
+import { isListDiverged } from '../utils/listMerge';
+
+const MAX_UNDO = 20;
+
+interface ListUndoEntry {
+  label: string;
+  missing: CardEntry[];
+  owned: CardEntry[];
+}
+
+/**
+ * The missing and owned lists, and the last loaded copy of the sheet they
+ * are compared against, all saved whenever they change. Edits through
+ * `updateLists` can be undone.
+ */
+export function useCardLists() {
+  const [missingList, setMissingList] = useState<CardEntry[]>(loadMissingList);
+  const [ownedList, setOwnedList] = useState<CardEntry[]>(loadOwnedList);
+  const [sheetSnapshot, setSheetSnapshot] = useState<CardEntry[]>(() => loadSheetSnapshot() ?? loadMissingList());
+  const [undoStack, setUndoStack] = useState<ListUndoEntry[]>([]);
+
+  // Save missing list when it changes
+  useEffect(() => {
+    saveMissingList(missingList);
+  }, [missingList]);
+
+  // Save owned list when it changes
+  useEffect(() => {
+    saveOwnedList(ownedList);
+  }, [ownedList]);
+
+  // Save the last loaded copy of the sheet when it changes
+  useEffect(() => {
+    saveSheetSnapshot(sheetSnapshot);
+  }, [sheetSnapshot]);
+
+  // Replace both lists, remembering the previous state for undo
+  const updateLists = (label: string, nextMissing: CardEntry[], nextOwned: CardEntry[] = ownedList) => {
+    setUndoStack(prev => [...prev.slice(-(MAX_UNDO - 1)), { label, missing: missingList, owned: ownedList }]);
+    setMissingList(nextMissing);
+    setOwnedList(nextOwned);
+  };
+
+  // Goes back to the lists before the last edit; returns what was undone
+  const undo = (): string | null => {
+    const last = undoStack[undoStack.length - 1];
+    if (!last) return null;
+
+    setUndoStack(prev => prev.slice(0, -1));
+    setMissingList(last.missing);
+    setOwnedList(last.owned);
+    return last.label;
+  };
+
+  return {
+    missingList,
+    ownedList,
+    sheetSnapshot,
+    setMissingList,
+    setOwnedList,
+    setSheetSnapshot,
+    updateLists,
+    undo,
+    /** What undo would revert, if anything */
+    undoLabel: undoStack.at(-1)?.label ?? null,
+    hasLocalChanges: isListDiverged(sheetSnapshot, missingList),
+  };
+}
+
+export type CardLists = ReturnType<typeof useCardLists>;
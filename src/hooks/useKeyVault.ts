@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import type { ApiKeyStorage, AppSettings } from '../types';
+import { loadKeyVault, saveKeyVault, clearKeyVault, clearLegacyApiKey } from '../utils/storage';
+import { encryptApiKey, decryptApiKey, KeyVaultError } from '../utils/keyVault';
+import type { StatusMessage } from '../utils/statusMessages';
+import type { ChangeSetting } from './useSettings';
+import type { WithLoading } from './useLoadingOverlay';
+
+interface KeyVaultOptions {
+  settings: AppSettings;
+  changeSetting: ChangeSetting;
+  withLoading: WithLoading;
+  setStatusMessage: (message: StatusMessage | null) => void;
+}
+
+/**
+ * The vision API key saved on this device, encrypted with a passphrase
+ */
+export function useKeyVault({ settings, changeSetting, withLoading, setStatusMessage }: KeyVaultOptions) {
+  const [hasKeyVault, setHasKeyVault] = useState(() => loadKeyVault() !== null);
+  // The key in the vault, once saved or unlocked this session
+  const [vaultKey, setVaultKey] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+
+  const isKeyLocked = settings.apiKeyStorage === 'vault' && hasKeyVault && vaultKey === null;
+
+  const changeStorage = (storage: ApiKeyStorage) => {
+    // Session-only keys are never stored, so a saved one is removed
+    if (storage === 'session') {
+      clearKeyVault();
+      clearLegacyApiKey();
+      setHasKeyVault(false);
+      setVaultKey(null);
+    }
+    setPassphrase('');
+    changeSetting('apiKeyStorage', storage);
+  };
+
+  const save = async () => {
+    if (!settings.visionApiKey || !passphrase) return;
+
+    await withLoading('Encrypting your API key...', async () => {
+      try {
+        saveKeyVault(await encryptApiKey(settings.visionApiKey, passphrase));
+        clearLegacyApiKey();
+        setHasKeyVault(true);
+        setVaultKey(settings.visionApiKey);
+        setPassphrase('');
+        setStatusMessage({ type: 'success', text: 'API key saved, encrypted with your passphrase' });
+      } catch {
+        setStatusMessage({ type: 'error', text: 'This browser could not encrypt the API key' });
+      }
+    });
+  };
+
+  const unlock = async () => {
+    const vault = loadKeyVault();
+    if (!vault || !passphrase) return;
+
+    await withLoading('Unlocking your API key...', async () => {
+      try {
+        const apiKey = await decryptApiKey(vault, passphrase);
+        setVaultKey(apiKey);
+        changeSetting('visionApiKey', apiKey);
+        setPassphrase('');
+        setStatusMessage({ type: 'success', text: 'API key unlocked' });
+      } catch (error) {
+        setStatusMessage({
+          type: 'error',
+          text: error instanceof KeyVaultError ? 'Wrong passphrase. Try again.' : 'This browser could not unlock the API key',
+        });
+      }
+    });
+  };
+
+  // For a forgotten passphrase: the key has to be entered again
+  const forget = () => {
+    clearKeyVault();
+    clearLegacyApiKey();
+    setHasKeyVault(false);
+    setVaultKey(null);
+    setPassphrase('');
+    changeSetting('visionApiKey', '');
+    setStatusMessage({ type: 'success', text: 'Saved API key removed from this device' });
+  };
+
+  return { hasKeyVault, vaultKey, passphrase, setPassphrase, isKeyLocked, changeStorage, save, unlock, forget };
+}
+
+export type KeyVaultState = ReturnType<typeof useKeyVault>;
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import type { ScanResult } from '../types';
+import { isAbortError } from '../utils/errors';
+import { describeError } from '../utils/statusMessages';
+import type { RequestGroup, RunCancellable } from './useCancellableRequests';
+import type { Scanner } from './useScanner';
+
+interface LiveScanOptions {
+  scanner: Scanner;
+  runCancellable: RunCancellable;
+  cancelRequests: (group: RequestGroup) => void;
+  /** Called when live mode starts, once the scan can run */
+  onStart: () => void;
+}
+
+/**
+ * Live mode in the viewfinder: every new view of the camera is scanned, and
+ * the cards found are collected frame by frame
+ */
+export function useLiveScan({ scanner, runCancellable, cancelRequests, onStart }: LiveScanOptions) {
+  const [liveBatches, setLiveBatches] = useState<Array<{ source: string; results: ScanResult[] }>>([]);
+
+  // Checks that scanning can run; false means the viewfinder should close
+  const startLive = (): boolean => {
+    if (!scanner.prepareScan()) {
+      return false;
+    }
+    setLiveBatches([]);
+    onStart();
+    return true;
+  };
+
+  // Live frames are not kept in history: a binder flip-through would fill it
+  const scanFrame = async (image: string) => {
+    let results: ScanResult[];
+    try {
+      ({ results } = await runCancellable('live', signal =>
+        scanner.scanImage(image, scanner.selectProvider(), { recordHistory: false, retry: { signal } })
+      ));
+    } catch (error) {
+      // Stopping live mode cancels the frame in flight
+      if (isAbortError(error)) return;
+      throw new Error(describeError(error, 'Failed to scan frame', scanner.visionSource).text);
+    }
+    setLiveBatches(prev => [...prev, { source: `Frame ${prev.length + 1}`, results }]);
+  };
+
+  const stopLive = () => cancelRequests('live');
+
+  const clearLive = () => setLiveBatches([]);
+
+  return { liveBatches, startLive, scanFrame, stopLive, clearLive };
+}
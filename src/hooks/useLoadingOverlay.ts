@@ -0,0 +1,25 @@
+import { useState } from 'react';
+
+/**
+ * State of the loading overlay: whether it shows and what it says
+ */
+export function useLoadingOverlay() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingMessage, setLoadingMessage] = useState('');
+
+  // Shows the overlay with `message` until `task` settles
+  const withLoading = async <T>(message: string, task: () => Promise<T>): Promise<T> => {
+    setIsLoading(true);
+    setLoadingMessage(message);
+    try {
+      return await task();
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  return { isLoading, loadingMessage, setLoadingMessage, withLoading };
+}
+
+export type WithLoading = ReturnType<typeof useLoadingOverlay>['withLoading'];
@@ -0,0 +1,160 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AppSettings, CardEntry, PendingScan, ScanResult } from '../types';
+import { isRetryable } from '../utils/errors';
+import { createVisionProvider } from '../utils/providers';
+import { loadPendingScans, addPendingScan, updatePendingScan, deletePendingScan } from '../utils/pendingScans';
+import { describeError } from '../utils/statusMessages';
+import type { StatusMessage } from '../utils/statusMessages';
+import type { Scanner } from './useScanner';
+
+/** Failed scans of a queued photo before it stops being retried on its own */
+const MAX_AUTO_ATTEMPTS = 3;
+
+interface PendingScanOptions {
+  settings: AppSettings;
+  missingList: CardEntry[];
+  scanner: Scanner;
+  setStatusMessage: (message: StatusMessage | null) => void;
+  /** Shows the History tab, where the results of queued photos end up */
+  showHistory: () => void;
+}
+
+/**
+ * Photos taken while offline, kept in IndexedDB and scanned as soon as the
+ * connection returns
+ */
+export function usePendingScans({ settings, missingList, scanner, setStatusMessage, showHistory }: PendingScanOptions) {
+  const [pendingScans, setPendingScans] = useState<PendingScan[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const syncingRef = useRef(false);
+  const syncRef = useRef<() => void>(() => {});
+
+  // Load photos queued while offline, and scan them if the connection is already back
+  useEffect(() => {
+    loadPendingScans()
+      .then(scans => {
+        setPendingScans(scans);
+        if (scans.length > 0 && navigator.onLine) {
+          syncRef.current();
+        }
+      })
+      .catch(e => console.error('Failed to load pending scans:', e));
+  }, []);
+
+  // Track connectivity, scanning the queued photos as soon as it returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncRef.current();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Keeps photos taken offline for a full scan once the connection returns
+  const queueForLater = async (images: string[]) => {
+    const fresh = images.filter(image => !pendingScans.some(scan => scan.image === image));
+    try {
+      const added = await Promise.all(fresh.map(image => addPendingScan(image, settings.scanMode)));
+      setPendingScans(prev => [...prev, ...added]);
+    } catch (e) {
+      console.error('Failed to queue scan:', e);
+      return;
+    }
+
+    // Ask now, while the user is here, so matches can be announced later
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {
+        // Without permission, matches are only shown in the app
+      });
+    }
+  };
+
+  // Scans every queued photo with the cloud provider, oldest first. Held
+  // photos are skipped unless the user asked for the scan.
+  const syncPendingScans = async ({ retryHeld = false }: { retryHeld?: boolean } = {}) => {
+    if (syncingRef.current || scanner.isOffline()) return;
+
+    const provider = createVisionProvider(settings);
+    if (provider.requiresApiKey && !settings.visionApiKey) return;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    const found: ScanResult[] = [];
+    let scanned = 0;
+    try {
+      for (const scan of await loadPendingScans()) {
+        // Stop if the connection drops again; the rest waits for the next time
+        if (!navigator.onLine) break;
+        if (scan.held && !retryHeld) continue;
+
+        try {
+          if (scan.scanMode === 'missing' && missingList.length === 0) {
+            throw new Error('Load your missing list to scan this photo');
+          }
+          const { results } = await scanner.scanImage(scan.image, provider, { scanMode: scan.scanMode });
+          await deletePendingScan(scan.id);
+          setPendingScans(prev => prev.filter(item => item.id !== scan.id));
+          found.push(...results.filter(result => result.status === 'need'));
+          scanned++;
+        } catch (error) {
+          const attempts = scan.attempts + 1;
+          const failed = {
+            ...scan,
+            attempts,
+            lastError: describeError(error, 'Failed to scan image', scanner.visionSource).text,
+            held: !isRetryable(error) || attempts >= MAX_AUTO_ATTEMPTS,
+          };
+          setPendingScans(prev => prev.map(item => (item.id === scan.id ? failed : item)));
+          await updatePendingScan(failed).catch(e => console.error('Failed to update pending scan:', e));
+        }
+      }
+    } catch (e) {
+      console.error('Failed to load pending scans:', e);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+
+    if (scanned === 0) return;
+
+    const text = found.length > 0
+      ? `Back online: found ${found.length} Pokemon from your missing list in ${scanned} queued photos`
+      : `Back online: scanned ${scanned} queued photos, none from your missing list`;
+    setStatusMessage({ type: 'success', text });
+
+    // Tell a user who has left the app; the results are waiting in History
+    if (found.length > 0 && document.hidden && 'Notification' in window && Notification.permission === 'granted') {
+      const notification = new Notification('Missing cards found', {
+        body: [...new Set(found.map(result => result.name))].join(', '),
+      });
+      notification.onclick = () => {
+        window.focus();
+        showHistory();
+        notification.close();
+      };
+    }
+  };
+
+  // The online listener always runs the latest sync
+  useEffect(() => {
+    syncRef.current = syncPendingScans;
+  });
+
+  const removePendingScan = async (id: number) => {
+    await deletePendingScan(id);
+    setPendingScans(prev => prev.filter(scan => scan.id !== id));
+  };
+
+  return { pendingScans, isSyncing, isOnline, queueForLater, syncPendingScans, removePendingScan };
+}
+
+export type PendingScans = ReturnType<typeof usePendingScans>;
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import type { ScanHistoryEntry } from '../types';
+import { loadScanHistory, addScanHistory, deleteScanHistory } from '../utils/history';
+
+/**
+ * Past scans from IndexedDB, newest first
+ */
+export function useScanHistory() {
+  const [scanHistory, setScanHistory] = useState<ScanHistoryEntry[]>([]);
+
+  // Load past scans from IndexedDB
+  useEffect(() => {
+    loadScanHistory()
+      .then(setScanHistory)
+      .catch(e => console.error('Failed to load scan history:', e));
+  }, []);
+
+  // Keeps a scan in history; a failure here shouldn't fail the scan
+  const recordScan = (entry: Omit<ScanHistoryEntry, 'id' | 'image'>, image: string) => {
+    addScanHistory(entry, image)
+      .then(saved => setScanHistory(prev => [saved, ...prev]))
+      .catch(e => console.error('Failed to save scan history:', e));
+  };
+
+  const deleteEntry = async (id: number) => {
+    await deleteScanHistory(id);
+    setScanHistory(prev => prev.filter(entry => entry.id !== id));
+  };
+
+  return { scanHistory, recordScan, deleteEntry };
+}
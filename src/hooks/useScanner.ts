@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import type { AppSettings, ScanHistoryEntry, ScanMode, ScanResult, TabType } from '../types';
+import { identifyCardsInImage, classifyDetections } from '../utils/vision';
+import type { VisionProvider } from '../utils/vision';
+import type { RetryOptions } from '../utils/errors';
+import { createVisionProvider } from '../utils/providers';
+import { createOcrProvider } from '../utils/providers/ocr';
+import { preprocessImage, describeSavings } from '../utils/preprocess';
+import type { ErrorSource, StatusMessage } from '../utils/statusMessages';
+import type { CardLists } from './useCardLists';
+
+interface ScannerOptions {
+  settings: AppSettings;
+  lists: CardLists;
+  isKeyLocked: boolean;
+  recordScan: (entry: Omit<ScanHistoryEntry, 'id' | 'image'>, image: string) => void;
+  setStatusMessage: (message: StatusMessage | null) => void;
+  setActiveTab: (tab: TabType) => void;
+}
+
+export interface ScanImageOptions {
+  recordHistory?: boolean;
+  scanMode?: ScanMode;
+  retry?: RetryOptions;
+  /** Called with the cards found so far while the reply streams in */
+  onPartial?: (results: ScanResult[]) => void;
+}
+
+/**
+ * Picks the vision provider and scans photos with it, classifying the cards
+ * against the missing and owned lists
+ */
+export function useScanner({ settings, lists, isKeyLocked, recordScan, setStatusMessage, setActiveTab }: ScannerOptions) {
+  const { missingList, ownedList } = lists;
+  const [uploadInfo, setUploadInfo] = useState<string | null>(null);
+
+  // Scans and sheet loads through the scan proxy fail in the proxy's own ways
+  const visionSource: ErrorSource = settings.proxyUrl ? 'proxy' : 'vision';
+
+  // Cloud providers can't be reached offline; the mock provider runs locally
+  const isOffline = () => settings.visionProvider !== 'mock' && !navigator.onLine;
+
+  // Offline, or without an API key, card names are read on the device instead
+  const selectProvider = (): VisionProvider => {
+    const provider = createVisionProvider(settings);
+    const isReachable = settings.visionProvider === 'mock' || navigator.onLine;
+
+    if (!isReachable || (provider.requiresApiKey && !settings.visionApiKey)) {
+      return createOcrProvider([...missingList, ...ownedList]);
+    }
+    return provider;
+  };
+
+  // Checks that a scan can run, sending the user to Settings if not
+  const prepareScan = (): VisionProvider | null => {
+    if (isKeyLocked && navigator.onLine && createVisionProvider(settings).requiresApiKey) {
+      setStatusMessage({
+        type: 'error',
+        text: 'Your API key is locked. Enter your passphrase to use it.',
+        action: { label: 'Unlock API key', field: 'apiKeyPassphrase' },
+      });
+      return null;
+    }
+
+    const provider = selectProvider();
+
+    // The offline reader can only recognize cards it can compare against a list
+    if (provider.promptable === false && missingList.length === 0 && ownedList.length === 0) {
+      if (navigator.onLine) {
+        setStatusMessage({ type: 'error', text: 'Please enter your vision API key in Settings' });
+      } else {
+        setStatusMessage({ type: 'error', text: "You're offline. Offline scanning needs your missing list, so load it while online first" });
+      }
+      setActiveTab('settings');
+      return null;
+    }
+
+    if (settings.scanMode === 'missing' && missingList.length === 0) {
+      setStatusMessage({ type: 'error', text: 'Please load your missing list from Google Sheets first' });
+      setActiveTab('settings');
+      return null;
+    }
+
+    return provider;
+  };
+
+  // Identifies and classifies the cards in one photo, optionally recording it in history
+  const scanImage = async (
+    image: string,
+    provider: VisionProvider,
+    { recordHistory = true, scanMode = settings.scanMode, retry = {}, onPartial }: ScanImageOptions = {}
+  ): Promise<{ results: ScanResult[]; truncated: boolean }> => {
+    // Shrink and re-encode the photo before upload. The mock provider's
+    // fixtures are keyed on the original file, so it gets the photo untouched.
+    let upload = image;
+    if (settings.visionProvider !== 'mock') {
+      try {
+        const prepared = await preprocessImage(image, settings.preprocess);
+        upload = prepared.dataUrl;
+        setUploadInfo(describeSavings(prepared));
+      } catch (e) {
+        console.error('Failed to preprocess image, sending the original:', e);
+      }
+    }
+
+    // Send image (and the missing list, in missing mode) to the selected vision provider
+    const { detections, rawResponse, truncated } = await identifyCardsInImage(
+      upload,
+      provider,
+      scanMode,
+      missingList,
+      {
+        ...retry,
+        onPartial: onPartial
+          && (detections => onPartial(classifyDetections(detections, missingList, ownedList, settings.matchThreshold))),
+      }
+    );
+
+    // Classify every detected card locally against the missing and owned lists
+    const results = classifyDetections(detections, missingList, ownedList, settings.matchThreshold);
+
+    if (recordHistory) {
+      recordScan({ timestamp: Date.now(), provider: provider.name, scanMode, rawResponse, results }, image);
+    }
+    return { results, truncated };
+  };
+
+  return { uploadInfo, visionSource, isOffline, selectProvider, prepareScan, scanImage };
+}
+
+export type Scanner = ReturnType<typeof useScanner>;
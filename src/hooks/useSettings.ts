@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import type { AppSettings, ColumnMapping, PreprocessSettings, WriteBackSettings } from '../types';
+import { loadSettings, saveSettings } from '../utils/storage';
+
+/**
+ * The app settings, saved whenever they change, with setters for single
+ * fields of the settings and of their nested groups
+ */
+export function useSettings() {
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+
+  // Save settings when they change
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  const changeSetting = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const changeColumnMapping = (field: keyof ColumnMapping, column: string) => {
+    setSettings(prev => ({ ...prev, columnMapping: { ...prev.columnMapping, [field]: column } }));
+  };
+
+  const changePreprocess = <K extends keyof PreprocessSettings>(key: K, value: PreprocessSettings[K]) => {
+    setSettings(prev => ({ ...prev, preprocess: { ...prev.preprocess, [key]: value } }));
+  };
+
+  const changeWriteBack = <K extends keyof WriteBackSettings>(key: K, value: WriteBackSettings[K]) => {
+    setSettings(prev => ({ ...prev, writeBack: { ...prev.writeBack, [key]: value } }));
+  };
+
+  return { settings, setSettings, changeSetting, changeColumnMapping, changePreprocess, changeWriteBack };
+}
+
+export type ChangeSetting = ReturnType<typeof useSettings>['changeSetting'];
+export type SettingsState = ReturnType<typeof useSettings>;
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import type { AppSettings, CardEntry, ColumnMapping } from '../types';
+import { fetchSheetData, fetchSheetHeaders, guessColumnMapping } from '../utils/sheets';
+import type { SheetHeader } from '../utils/sheets';
+import { fetchSheetDataViaProxy } from '../utils/proxy';
+import { mergeCardLists } from '../utils/listFiles';
+import { planListMerge } from '../utils/listMerge';
+import type { ListMergePlan } from '../utils/listMerge';
+import type { ShowError, StatusMessage } from '../utils/statusMessages';
+import type { CardLists } from './useCardLists';
+import type { RunCancellable } from './useCancellableRequests';
+import type { WithLoading } from './useLoadingOverlay';
+
+interface SheetSyncOptions {
+  settings: AppSettings;
+  setSettings: (update: (prev: AppSettings) => AppSettings) => void;
+  lists: CardLists;
+  runCancellable: RunCancellable;
+  withLoading: WithLoading;
+  setStatusMessage: (message: StatusMessage | null) => void;
+  showError: ShowError;
+}
+
+/**
+ * A sheet load that found local changes to the list, waiting for the user
+ * to merge them or use the sheet
+ */
+export interface SheetMerge {
+  plan: ListMergePlan;
+  owned: CardEntry[];
+}
+
+/**
+ * Reads the missing and owned lists from the Google Sheet. When the list
+ * was edited locally since the last load, the load waits in `sheetMerge`
+ * until the user decides how to merge.
+ */
+export function useSheetSync({
+  settings, setSettings, lists, runCancellable, withLoading, setStatusMessage, showError,
+}: SheetSyncOptions) {
+  const [sheetHeaders, setSheetHeaders] = useState<SheetHeader[]>([]);
+  const [sheetMerge, setSheetMerge] = useState<SheetMerge | null>(null);
+
+  const fetchHeaders = async () => {
+    if (!settings.sheetUrl) {
+      setStatusMessage({ type: 'error', text: 'Please enter a Google Sheet URL' });
+      return;
+    }
+
+    setStatusMessage(null);
+    await withLoading('Reading column headers...', async () => {
+      try {
+        const headers = await runCancellable('overlay', signal => fetchSheetHeaders(settings.sheetUrl, settings.sheetTab || '', signal));
+        setSheetHeaders(headers);
+
+        // Only fill in fields the user hasn't mapped yet
+        const guessed = guessColumnMapping(headers);
+        setSettings(prev => {
+          const columnMapping = { ...prev.columnMapping };
+          for (const field of Object.keys(guessed) as Array<keyof ColumnMapping>) {
+            if (!columnMapping[field] && guessed[field]) {
+              columnMapping[field] = guessed[field];
+            }
+          }
+          return { ...prev, columnMapping };
+        });
+
+        setStatusMessage({ type: 'success', text: `Found ${headers.length} columns` });
+      } catch (error) {
+        showError(error, 'Failed to read sheet columns', 'sheet');
+      }
+    });
+  };
+
+  const loadSheet = async () => {
+    if (!settings.sheetUrl) {
+      setStatusMessage({ type: 'error', text: 'Please enter a Google Sheet URL' });
+      return;
+    }
+
+    setStatusMessage(null);
+    await withLoading('Loading missing list from Google Sheets...', async () => {
+      try {
+        const { cards, owned } = await runCancellable('overlay', async signal => {
+          const loadTab = (tab: string) => settings.proxyUrl
+            ? fetchSheetDataViaProxy(settings.proxyUrl, settings.sheetUrl, tab, settings.columnMapping, signal)
+            : fetchSheetData(settings.sheetUrl, tab, settings.columnMapping, signal);
+          return {
+            cards: await loadTab(settings.sheetTab || ''),
+            owned: settings.ownedSheetTab.trim() ? await loadTab(settings.ownedSheetTab) : [],
+          };
+        });
+
+        // Don't silently overwrite local edits: show a merge preview instead
+        if (lists.hasLocalChanges) {
+          setSheetMerge({ plan: planListMerge(lists.sheetSnapshot, lists.missingList, cards), owned });
+          setStatusMessage({ type: 'loading', text: 'Your list has local changes. Review how to merge them below.' });
+          return;
+        }
+
+        lists.updateLists('Load from sheet', cards, owned);
+        lists.setSheetSnapshot(cards);
+        setStatusMessage({
+          type: 'success',
+          text: owned.length > 0
+            ? `Loaded ${cards.length} missing and ${owned.length} owned cards from sheet`
+            : `Loaded ${cards.length} cards from sheet`,
+        });
+      } catch (error) {
+        showError(error, 'Failed to load sheet', settings.proxyUrl ? 'proxy' : 'sheet');
+      }
+    });
+  };
+
+  const resolveSheetMerge = (keepLocalChanges: boolean) => {
+    if (!sheetMerge) return;
+    const { plan, owned } = sheetMerge;
+
+    if (keepLocalChanges) {
+      // Cards marked as acquired locally stay in the owned list too
+      lists.updateLists('Merge with sheet', plan.merged, mergeCardLists(owned, lists.ownedList).merged);
+    } else {
+      lists.updateLists('Load from sheet', plan.incoming, owned);
+    }
+    lists.setSheetSnapshot(plan.incoming);
+    setSheetMerge(null);
+    setStatusMessage({
+      type: 'success',
+      text: keepLocalChanges
+        ? `Merged sheet into your list (${plan.merged.length} cards)`
+        : `Replaced your list with the sheet (${plan.incoming.length} cards)`,
+    });
+  };
+
+  const cancelSheetMerge = () => setSheetMerge(null);
+
+  return { sheetHeaders, sheetMerge, fetchHeaders, loadSheet, resolveSheetMerge, cancelSheetMerge };
+}
+
+export type SheetSync = ReturnType<typeof useSheetSync>;
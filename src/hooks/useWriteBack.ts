@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import type { AppSettings, CardEntry } from '../types';
+import { cardKey } from '../utils/matching';
+import { mergeCardLists } from '../utils/listFiles';
+import { requestSheetsAccessToken, createSheetsClient, previewWriteBack, applyWriteBack } from '../utils/sheetsApi';
+import type { WriteBackPlan } from '../utils/sheetsApi';
+import type { ShowError, StatusMessage } from '../utils/statusMessages';
+import type { CardLists } from './useCardLists';
+import type { WithLoading } from './useLoadingOverlay';
+
+interface WriteBackOptions {
+  settings: AppSettings;
+  lists: CardLists;
+  withLoading: WithLoading;
+  setStatusMessage: (message: StatusMessage | null) => void;
+  showError: ShowError;
+}
+
+/**
+ * Marks found cards in the Google Sheet: a preview of the changes first,
+ * then the changes themselves once confirmed
+ */
+export function useWriteBack({ settings, lists, withLoading, setStatusMessage, showError }: WriteBackOptions) {
+  const [writeBackPlan, setWriteBackPlan] = useState<WriteBackPlan | null>(null);
+
+  // Dry run: read the sheet and show what would change before touching it
+  const preview = async (cards: CardEntry[]) => {
+    setStatusMessage(null);
+    await withLoading('Reading your Google Sheet...', async () => {
+      try {
+        const token = await requestSheetsAccessToken(settings.oauthClientId);
+        const plan = await previewWriteBack(
+          createSheetsClient(token),
+          settings.sheetUrl,
+          settings.sheetTab,
+          cards,
+          settings.columnMapping,
+          settings.writeBack,
+          settings.ownedSheetTab
+        );
+        setWriteBackPlan(plan);
+      } catch (error) {
+        showError(error, 'Failed to read sheet', 'sheets-api');
+      }
+    });
+  };
+
+  const apply = async () => {
+    if (!writeBackPlan) return;
+
+    setStatusMessage(null);
+    await withLoading('Updating your Google Sheet...', async () => {
+      try {
+        const token = await requestSheetsAccessToken(settings.oauthClientId);
+        await applyWriteBack(createSheetsClient(token), settings.sheetUrl, writeBackPlan);
+
+        // Mirror the change locally (and in the sheet snapshot, since the sheet
+        // itself changed) so the lists match the sheet without a reload
+        const changedKeys = new Set(writeBackPlan.changes.map(change => cardKey(change.card)));
+        if (settings.writeBack.mode === 'move') {
+          const moved = lists.missingList.filter(card => changedKeys.has(cardKey(card)));
+          const removeMoved = (list: CardEntry[]) => list.filter(card => !changedKeys.has(cardKey(card)));
+          lists.setMissingList(removeMoved);
+          lists.setSheetSnapshot(removeMoved);
+          lists.setOwnedList(prev => mergeCardLists(prev, moved).merged);
+        } else if (settings.writeBack.mode === 'quantity') {
+          const decrement = (list: CardEntry[]) => list.map(card => changedKeys.has(cardKey(card))
+            ? { ...card, quantity: Math.max((card.quantity ?? 1) - 1, 0) }
+            : card);
+          lists.setMissingList(decrement);
+          lists.setSheetSnapshot(decrement);
+        }
+
+        const updatedRows = new Set(writeBackPlan.changes.map(change => change.row)).size;
+        setStatusMessage({ type: 'success', text: `Updated ${updatedRows} rows in your sheet` });
+        setWriteBackPlan(null);
+      } catch (error) {
+        showError(error, 'Failed to update sheet', 'sheets-api');
+      }
+    });
+  };
+
+  const discard = () => setWriteBackPlan(null);
+
+  return { writeBackPlan, preview, apply, discard };
+}
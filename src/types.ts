@@ -1,14 +1,147 @@
-export interface ScanResult {
+/**
+ * Card position in the photo, normalized to 0..1 with the origin at the top left
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One card on the missing or owned list. `name` is the full printed name
+ * ("Charizard ex"), `variant` the part of it that marks a distinct card
+ * ("ex", "VMAX", "Radiant"). Entries without a variant or number match any
+ * printing of the name.
+ */
+export interface CardEntry {
   name: string;
-  status: 'need' | 'have' | 'unknown';
+  setCode: string | null;
+  number: string | null;
+  variant: string | null;
+  rarity: string | null;
+  quantity: number | null;
+  notes: string | null;
+}
+
+/**
+ * Which sheet column (by letter) holds each card field; '' leaves it unmapped
+ */
+export interface ColumnMapping {
+  name: string;
+  setCode: string;
+  number: string;
+  variant: string;
+  rarity: string;
+  quantity: string;
+  notes: string;
+}
+
+export interface CardDetection {
+  name: string;
+  set: string | null;
+  number: string | null;
+  box: BoundingBox | null;
   confidence: number;
+  /** Read by the on-device OCR fallback rather than a vision model */
+  offline?: boolean;
+}
+
+/**
+ * A detection classified against the missing and owned lists. `name` is the
+ * matched list entry when there is one, `confidence` the name similarity and
+ * `modelConfidence` what the vision model reported.
+ */
+export interface ScanResult extends CardDetection {
+  status: 'need' | 'have' | 'unknown';
+  card: CardEntry | null;
+  detectedName: string;
+  modelConfidence: number;
 }
 
+/**
+ * How a card marked as acquired is written back to the sheet: tick a status
+ * column, stamp today's date into it, decrement the quantity column, or move
+ * the row to the owned cards tab (which must use the same column layout)
+ */
+export interface WriteBackSettings {
+  mode: 'mark' | 'date' | 'quantity' | 'move';
+  column: string;
+  markValue: string;
+}
+
+/**
+ * How photos are prepared before upload: upright, shrunk so the long edge is
+ * at most `maxDimension` pixels (0 keeps the size), re-encoded, and
+ * optionally contrast-stretched and sharpened
+ */
+export interface PreprocessSettings {
+  maxDimension: number;
+  format: 'jpeg' | 'webp';
+  quality: number;
+  enhance: boolean;
+}
+
+export type VisionProviderType = 'gemini' | 'openai' | 'mock';
+
+/**
+ * 'missing' asks the model only for cards on the missing list,
+ * 'inventory' asks for every card it can read
+ */
+export type ScanMode = 'missing' | 'inventory';
+
+/**
+ * Where the vision API key is kept: 'session' only in memory until the app
+ * is closed, 'vault' encrypted with a passphrase on this device. It is never
+ * saved with the other settings.
+ */
+export type ApiKeyStorage = 'session' | 'vault';
+
 export interface AppSettings {
   sheetUrl: string;
   visionApiKey: string;
+  apiKeyStorage: ApiKeyStorage;
   sheetTab: string;
-  sheetColumn: string;
+  columnMapping: ColumnMapping;
+  ownedSheetTab: string;
+  oauthClientId: string;
+  writeBack: WriteBackSettings;
+  scanMode: ScanMode;
+  matchThreshold: number;
+  visionProvider: VisionProviderType;
+  visionEndpoint: string;
+  visionModel: string;
+  /** Scan proxy server that holds the API key; empty to call the services directly */
+  proxyUrl: string;
+  preprocess: PreprocessSettings;
+}
+
+/**
+ * One past scan as kept in the history store. `image` is a downscaled copy
+ * of the photo; boxes in `results` are normalized, so they still line up.
+ */
+export interface ScanHistoryEntry {
+  id: number;
+  timestamp: number;
+  provider: string;
+  scanMode: ScanMode;
+  image: string;
+  rawResponse: string;
+  results: ScanResult[];
+}
+
+/**
+ * A photo taken while offline, kept until it can be sent to the vision provider
+ */
+export interface PendingScan {
+  id: number;
+  timestamp: number;
+  image: string;
+  scanMode: ScanMode;
+  attempts: number;
+  lastError: string | null;
+  /** Failed for good or too often; only scanned again when the user asks */
+  held: boolean;
 }
 
-export type TabType = 'scan' | 'list' | 'settings';
+export type TabType = 'scan' | 'list' | 'history' | 'settings';
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import manifestJson from '../fixtures/benchmark.json';
+import type { CardDetection } from '../types';
+import { formatCardEntry, parseCardEntry } from './cards';
+import {
+  computeMetrics,
+  expectedCards,
+  parseManifest,
+  reportedDetections,
+  scoreDetections,
+  sumReplies,
+  sumScores,
+  tokenCost,
+} from './benchmark';
+import type { RecordedReply } from './providers/replay';
+
+const manifest = parseManifest(JSON.stringify(manifestJson));
+const missing = manifest.missing.map(card => parseCardEntry(card));
+
+/** The photo of the manifest whose file name contains `name` */
+const image = (name: string) => manifest.images.find(entry => entry.file.includes(name))!;
+
+const detection = (name: string, number: string | null = null, confidence = 0.9): CardDetection =>
+  ({ name, set: null, number, box: null, confidence });
+
+const reply = (latencyMs: number, usage: RecordedReply['usage']): RecordedReply =>
+  ({ key: 'k', response: '[]', latencyMs, usage });
+
+describe('parseManifest', () => {
+  it('reads the benchmark fixture', () => {
+    expect(manifest.missing).toHaveLength(10);
+    expect(manifest.images.map(entry => entry.cards.length)).toEqual([20, 3, 9, 16]);
+  });
+
+  it.each([
+    ['not JSON', '{', 'The manifest is not valid JSON'],
+    ['no images', '{"missing":[]}', 'The manifest needs an "images" array'],
+    ['a photo without a file', '{"images":[{"cards":[]}]}', 'Image 1 needs a "file"'],
+    ['cards that are not names', '{"images":[{"file":"a.jpg","cards":[1]}]}', 'a.jpg: "cards" must be an array of card names'],
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseManifest(text)).toThrow(message);
+  });
+});
+
+describe('expectedCards', () => {
+  it('expects every card in inventory mode', () => {
+    expect(expectedCards(image('test-2'), 'inventory', missing)).toHaveLength(3);
+  });
+
+  it('expects only the cards on the missing list in missing mode', () => {
+    expect(expectedCards(image('test-2'), 'missing', missing).map(formatCardEntry))
+      .toEqual(['Kubfu 093/198', 'Single Strike Urshifu 108/198']);
+    expect(expectedCards(image('test-4'), 'missing', missing).map(formatCardEntry))
+      .toEqual(['Charizard 4/102', 'Kakuna 33/102']);
+  });
+});
+
+describe('scoring', () => {
+  it('counts found, missed and extra cards, with a repeat counted once', () => {
+    const score = scoreDetections([
+      detection('Kubfu', '093/198'),
+      detection('Single Strike Urshifu', '108/198'),
+      detection('Kubfu', '093/198', 0.5),
+      detection('Pikachu'),
+    ], expectedCards(image('test-2'), 'inventory', missing));
+
+    expect(score).toEqual({
+      truePositives: 2,
+      falsePositives: 2,
+      falseNegatives: 1,
+      missed: ['Rapid Strike Urshifu 044/198'],
+      extra: ['Pikachu', 'Kubfu 093/198'],
+    });
+  });
+
+  it('scores only the cards a missing-list scan marks as needed', () => {
+    const detections = reportedDetections([detection('Charizard', '4/102'), detection('Squirtle', '63/102')], 'missing', missing);
+    const score = scoreDetections(detections, expectedCards(image('test-4'), 'missing', missing));
+
+    expect(score).toMatchObject({ truePositives: 1, falsePositives: 0, falseNegatives: 1, missed: ['Kakuna 33/102'] });
+  });
+
+  it('computes precision and recall over the whole set', () => {
+    const total = sumScores([
+      scoreDetections([detection('Kubfu', '093/198'), detection('Pikachu')], expectedCards(image('test-2'), 'inventory', missing)),
+      scoreDetections([detection('Bulbasaur'), detection('Ivysaur'), detection('Venusaur')], expectedCards(image('test-3'), 'inventory', missing)),
+    ]);
+
+    expect(total).toMatchObject({ truePositives: 4, falsePositives: 1, falseNegatives: 8 });
+    const { precision, recall, f1 } = computeMetrics(total);
+    expect(precision).toBeCloseTo(4 / 5);
+    expect(recall).toBeCloseTo(4 / 12);
+    expect(f1).toBeCloseTo((2 * 0.8 * (1 / 3)) / (0.8 + 1 / 3));
+  });
+
+  it.each([
+    ['nothing found', { truePositives: 0, falsePositives: 0, falseNegatives: 3 }, { precision: 1, recall: 0, f1: 0 }],
+    ['nothing expected', { truePositives: 0, falsePositives: 2, falseNegatives: 0 }, { precision: 0, recall: 1, f1: 0 }],
+    ['nothing at all', { truePositives: 0, falsePositives: 0, falseNegatives: 0 }, { precision: 1, recall: 1, f1: 1 }],
+  ])('handles %s', (_, counts, metrics) => {
+    expect(computeMetrics({ ...counts, missed: [], extra: [] })).toEqual(metrics);
+  });
+});
+
+describe('sumReplies', () => {
+  it('adds up latency and the usage that was reported', () => {
+    expect(sumReplies([
+      reply(1200, { inputTokens: 1000, outputTokens: 50 }),
+      reply(800, null),
+      reply(1500, { inputTokens: 900, outputTokens: 30 }),
+    ])).toEqual({ latencyMs: 3500, usage: { inputTokens: 1900, outputTokens: 80 } });
+  });
+
+  it('has no usage when no reply reported any', () => {
+    expect(sumReplies([reply(400, null)])).toEqual({ latencyMs: 400, usage: null });
+    expect(sumReplies([])).toEqual({ latencyMs: 0, usage: null });
+  });
+
+  it('prices tokens per million', () => {
+    expect(tokenCost({ inputTokens: 2_000_000, outputTokens: 500_000 }, { input: 1.25, output: 10 })).toBe(7.5);
+  });
+});
@@ -0,0 +1,211 @@
+import type { CardDetection, CardEntry, ScanMode } from '../types';
+import { formatCardEntry, parseCardEntry } from './cards';
+import { findMatchingCard, DEFAULT_MATCH_THRESHOLD } from './matching';
+import { classifyDetections } from './vision';
+import type { TokenUsage } from './vision';
+import type { RecordedReply } from './providers/replay';
+
+/**
+ * A labelled photo: every card visible in it, one entry per physical card,
+ * written like list entries ("Pikachu V", "Kubfu 093/198")
+ */
+export interface BenchmarkImage {
+  /** Path of the photo, relative to the manifest */
+  file: string;
+  cards: string[];
+}
+
+/**
+ * Ground truth for the recognition benchmark. `missing` is the missing list
+ * for 'missing' mode runs, where only the photo's cards on it are expected.
+ */
+export interface BenchmarkManifest {
+  missing: string[];
+  images: BenchmarkImage[];
+}
+
+/**
+ * How the found cards compare with the expected ones. `missed` lists the
+ * expected cards that weren't found, `extra` the found cards that weren't
+ * expected.
+ */
+export interface BenchmarkScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  missed: string[];
+  extra: string[];
+}
+
+export interface BenchmarkMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/** Price per million tokens, in dollars */
+export interface TokenPrices {
+  input: number;
+  output: number;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Parses and checks a manifest file. Throws with the first problem found.
+ */
+export function parseManifest(text: string): BenchmarkManifest {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The manifest is not valid JSON');
+  }
+
+  const manifest = data as Partial<Record<keyof BenchmarkManifest, unknown>> | null;
+  if (!manifest || !Array.isArray(manifest.images)) {
+    throw new Error('The manifest needs an "images" array');
+  }
+  if (manifest.missing !== undefined && !isStringArray(manifest.missing)) {
+    throw new Error('"missing" must be an array of card names');
+  }
+
+  const images = manifest.images.map((image: Partial<Record<keyof BenchmarkImage, unknown>>, i) => {
+    if (typeof image?.file !== 'string' || !image.file) {
+      throw new Error(`Image ${i + 1} needs a "file"`);
+    }
+    if (!isStringArray(image.cards)) {
+      throw new Error(`${image.file}: "cards" must be an array of card names`);
+    }
+    return { file: image.file, cards: image.cards };
+  });
+
+  return { missing: manifest.missing ?? [], images };
+}
+
+/**
+ * The cards a scan of the photo should report: all of them in 'inventory'
+ * mode, only those on the missing list in 'missing' mode
+ */
+export function expectedCards(
+  image: BenchmarkImage,
+  mode: ScanMode,
+  missingList: CardEntry[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): CardEntry[] {
+  const cards = image.cards.map(card => parseCardEntry(card));
+  if (mode === 'inventory') {
+    return cards;
+  }
+  return cards.filter(card => findMatchingCard(card, missingList, threshold).match !== null);
+}
+
+/**
+ * The detections a scan would show as results: all of them in 'inventory'
+ * mode, and in 'missing' mode the ones the app would mark as needed. Names
+ * stay as read, so they are scored against the photo rather than the list.
+ */
+export function reportedDetections(
+  detections: CardDetection[],
+  mode: ScanMode,
+  missingList: CardEntry[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): CardDetection[] {
+  if (mode === 'inventory') {
+    return detections;
+  }
+  return classifyDetections(detections, missingList, [], threshold)
+    .filter(result => result.status === 'need')
+    .map(result => ({ ...result, name: result.detectedName, confidence: result.modelConfidence }));
+}
+
+/**
+ * Pairs each detection, most confident first, with an expected card it
+ * matches under the app's matching rules. Each expected card can be claimed
+ * once, so a card reported twice counts once as found and once as extra.
+ */
+export function scoreDetections(
+  detections: CardDetection[],
+  expected: CardEntry[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): BenchmarkScore {
+  const remaining = [...expected];
+  const extra: string[] = [];
+
+  const byConfidence = [...detections].sort((a, b) => b.confidence - a.confidence);
+  for (const detection of byConfidence) {
+    const { match } = findMatchingCard(detection, remaining, threshold);
+    if (match) {
+      remaining.splice(remaining.indexOf(match), 1);
+    } else {
+      extra.push(detection.number ? `${detection.name} ${detection.number}` : detection.name);
+    }
+  }
+
+  return {
+    truePositives: expected.length - remaining.length,
+    falsePositives: extra.length,
+    falseNegatives: remaining.length,
+    missed: remaining.map(formatCardEntry),
+    extra,
+  };
+}
+
+/**
+ * Adds up scores from several photos, for metrics over the whole set
+ */
+export function sumScores(scores: BenchmarkScore[]): BenchmarkScore {
+  return scores.reduce((total, score) => ({
+    truePositives: total.truePositives + score.truePositives,
+    falsePositives: total.falsePositives + score.falsePositives,
+    falseNegatives: total.falseNegatives + score.falseNegatives,
+    missed: [...total.missed, ...score.missed],
+    extra: [...total.extra, ...score.extra],
+  }), { truePositives: 0, falsePositives: 0, falseNegatives: 0, missed: [], extra: [] });
+}
+
+/**
+ * Precision, recall and F1. Reporting nothing has perfect precision, and
+ * finding nothing when nothing was expected has perfect recall.
+ */
+export function computeMetrics(score: BenchmarkScore): BenchmarkMetrics {
+  const found = score.truePositives + score.falsePositives;
+  const expected = score.truePositives + score.falseNegatives;
+  const precision = found === 0 ? 1 : score.truePositives / found;
+  const recall = expected === 0 ? 1 : score.truePositives / expected;
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { precision, recall, f1 };
+}
+
+/**
+ * Adds up token usage; null when no request reported any
+ */
+export function sumUsage(usages: Array<TokenUsage | null>): TokenUsage | null {
+  const reported = usages.filter((usage): usage is TokenUsage => usage !== null);
+  if (reported.length === 0) {
+    return null;
+  }
+  return {
+    inputTokens: reported.reduce((sum, usage) => sum + usage.inputTokens, 0),
+    outputTokens: reported.reduce((sum, usage) => sum + usage.outputTokens, 0),
+  };
+}
+
+/**
+ * Time and tokens spent on a photo's replies. A scan sends its requests one
+ * after another, so their latencies add up.
+ */
+export function sumReplies(replies: RecordedReply[]): { latencyMs: number; usage: TokenUsage | null } {
+  return {
+    latencyMs: replies.reduce((sum, reply) => sum + reply.latencyMs, 0),
+    usage: sumUsage(replies.map(reply => reply.usage)),
+  };
+}
+
+/**
+ * Cost of the tokens in dollars
+ */
+export function tokenCost(usage: TokenUsage, prices: TokenPrices): number {
+  return (usage.inputTokens * prices.input + usage.outputTokens * prices.output) / 1_000_000;
+}
@@ -0,0 +1,90 @@
+import type { CardEntry } from '../types';
+
+// Name parts that make a different card, not just a different printing
+const SUFFIX_VARIANT = /\s+(vmax|vstar|v-union|v|ex|gx|break|lv\.?\s*x|prime|legend|δ|delta)$/i;
+const PREFIX_VARIANT = /^(radiant|shining)\s+/i;
+
+// Set code in parentheses, as written by formatCardEntry: "Pikachu 25/102 (BS)"
+const SET_CODE = /\s*\(([a-z0-9.-]{2,10})\)$/i;
+
+// Collector numbers like "199/165", "#44/102", "TG05/TG30" or promos like "SWSH050"
+const CARD_NUMBER = /\s+#?([a-z]{0,3}\d{1,3}[a-z]?\s*\/\s*[a-z]{0,3}\d{1,3}|[a-z]{2,4}\d{2,3})$/i;
+
+/**
+ * Parses a free-form card string like "Charizard ex 199/165 (SV3)" into a card entry.
+ * Fields passed in `fields` (e.g. from dedicated sheet columns) take precedence.
+ */
+export function parseCardEntry(raw: string, fields: Partial<Omit<CardEntry, 'name'>> = {}): CardEntry {
+  let name = raw.trim().replace(/\s+/g, ' ');
+  let number: string | null = null;
+  let setCode: string | null = null;
+
+  const setMatch = name.match(SET_CODE);
+  if (setMatch) {
+    setCode = setMatch[1].trim();
+    name = name.slice(0, setMatch.index).trim();
+  }
+
+  const numberMatch = name.match(CARD_NUMBER);
+  if (numberMatch) {
+    number = numberMatch[1].replace(/\s+/g, '');
+    name = name.slice(0, numberMatch.index).trim();
+  }
+
+  const variantMatch = name.match(SUFFIX_VARIANT) ?? name.match(PREFIX_VARIANT);
+
+  return {
+    name,
+    setCode: fields.setCode?.trim() || setCode,
+    number: fields.number?.trim() || number,
+    variant: fields.variant?.trim() || (variantMatch ? variantMatch[1] : null),
+    rarity: fields.rarity?.trim() || null,
+    quantity: fields.quantity ?? null,
+    notes: fields.notes?.trim() || null,
+  };
+}
+
+/**
+ * The card's name without its variant, e.g. "Charizard" for "Charizard ex"
+ */
+export function baseName(entry: CardEntry): string {
+  return entry.name.replace(SUFFIX_VARIANT, '').replace(PREFIX_VARIANT, '').trim();
+}
+
+/**
+ * Canonical form of a variant for comparison ("V-UNION" -> "vunion")
+ */
+export function normalizeVariant(variant: string | null): string {
+  if (!variant) {
+    return '';
+  }
+  return variant.toLowerCase().replace('δ', 'delta').replace(/[^a-z]/g, '');
+}
+
+/**
+ * Canonical form of a collector number for comparison ("044/198" -> "44/198")
+ */
+export function normalizeNumber(number: string | null): string {
+  if (!number) {
+    return '';
+  }
+  return number
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/^#/, '')
+    .replace(/(^|[^0-9])0+(?=\d)/g, '$1');
+}
+
+/**
+ * Human-readable label, e.g. "Charizard ex 199/165 (SV3)"
+ */
+export function formatCardEntry(entry: CardEntry): string {
+  let label = entry.name;
+  if (entry.number) {
+    label += ` ${entry.number}`;
+  }
+  if (entry.setCode) {
+    label += ` (${entry.setCode})`;
+  }
+  return label;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { CsvParseError, parseCsv, stringifyCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits plain rows and cells', () => {
+    expect(parseCsv('Name,Number\nPikachu,25/102\n')).toEqual([
+      ['Name', 'Number'],
+      ['Pikachu', '25/102'],
+    ]);
+  });
+
+  it('keeps delimiters inside quoted cells', () => {
+    expect(parseCsv('"Mr. Mime, Galarian",123/202')).toEqual([['Mr. Mime, Galarian', '123/202']]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCsv('"Farfetch""d",note')).toEqual([['Farfetch"d', 'note']]);
+  });
+
+  it('keeps line breaks inside quoted cells', () => {
+    expect(parseCsv('"first line\nsecond line",x\r\nnext,y')).toEqual([
+      ['first line\nsecond line', 'x'],
+      ['next', 'y'],
+    ]);
+  });
+
+  it('accepts CRLF, LF and CR line endings', () => {
+    const expected = [['a', 'b'], ['c', 'd']];
+    expect(parseCsv('a,b\r\nc,d\r\n')).toEqual(expected);
+    expect(parseCsv('a,b\nc,d')).toEqual(expected);
+    expect(parseCsv('a,b\rc,d\r')).toEqual(expected);
+  });
+
+  it('skips blank lines and a byte order mark', () => {
+    expect(parseCsv('\ufeffa,b\r\n\r\nc,d\r\n\r\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('keeps empty cells', () => {
+    expect(parseCsv('a,,c\n,,')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+
+  it('reports where an unterminated quote started', () => {
+    const text = 'Name,Number\r\nPikachu,"25/102\r\nRaichu,14/102\r\n';
+    expect(() => parseCsv(text)).toThrow(CsvParseError);
+    expect(() => parseCsv(text)).toThrow(expect.objectContaining({ line: 2, column: 9 }));
+  });
+
+  it('rejects text after a closing quote', () => {
+    expect(() => parseCsv('"Pikachu"x,1')).toThrow(expect.objectContaining({ line: 1, column: 10 }));
+  });
+
+  it('rejects a quote inside an unquoted cell', () => {
+    expect(() => parseCsv('a,b\nPika"chu,1')).toThrow(expect.objectContaining({ line: 2, column: 5 }));
+  });
+
+  it('checks the column count when asked', () => {
+    expect(() => parseCsv('a,b\nc\n', { strictColumnCount: true })).toThrow(
+      expect.objectContaining({ line: 2, column: 1 })
+    );
+    expect(parseCsv('a,b\nc\n')).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('uses another delimiter when given one', () => {
+    expect(parseCsv('a;"b;c"\n', { delimiter: ';' })).toEqual([['a', 'b;c']]);
+  });
+});
+
+describe('stringifyCsv', () => {
+  it('round-trips cells that need quoting', () => {
+    const rows = [['Name', 'Notes'], ['Farfetch"d', 'one, two'], ['Pikachu', 'line\nbreak'], [' padded ', '']];
+    const text = stringifyCsv(rows);
+    expect(text).toBe('Name,Notes\r\n"Farfetch""d","one, two"\r\nPikachu,"line\nbreak"\r\n" padded ",\r\n');
+    expect(parseCsv(text)).toEqual(rows);
+  });
+});
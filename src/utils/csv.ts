@@ -0,0 +1,138 @@
+/**
+ * Thrown when CSV text is malformed. `line` and `column` are 1-based and
+ * point at the character where the problem was found.
+ */
+export class CsvParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'CsvParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface CsvParseOptions {
+  delimiter?: string;
+  /** Throw if a row has a different number of cells than the first row */
+  strictColumnCount?: boolean;
+}
+
+/**
+ * Parses CSV text as described in RFC 4180: quoted cells may contain
+ * delimiters, line breaks and doubled quotes, and rows may end in CRLF, LF
+ * or CR. Blank lines are skipped. Malformed input throws a CsvParseError
+ * rather than producing shifted or merged cells.
+ */
+export function parseCsv(text: string, options: CsvParseOptions = {}): string[][] {
+  const delimiter = options.delimiter ?? ',';
+  const rows: string[][] = [];
+
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  // Set after a closing quote: only a delimiter or line break may follow
+  let afterQuote = false;
+  let rowLine = 1;
+  let quoteLine = 0;
+  let quoteColumn = 0;
+
+  let line = 1;
+  let column = 0;
+
+  const endRow = () => {
+    row.push(cell);
+    cell = '';
+
+    // Skip blank lines, which also covers a trailing newline at the end
+    if (!(row.length === 1 && row[0] === '')) {
+      if (options.strictColumnCount && rows.length > 0 && row.length !== rows[0].length) {
+        throw new CsvParseError(
+          `Expected ${rows[0].length} cells but found ${row.length}`,
+          rowLine,
+          1
+        );
+      }
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  // Strip a byte order mark left by spreadsheet exports
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    column++;
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+          column++;
+        } else {
+          inQuotes = false;
+          afterQuote = true;
+        }
+      } else {
+        cell += char;
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+          line++;
+          column = 0;
+        }
+      }
+      continue;
+    }
+
+    if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+      afterQuote = false;
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      afterQuote = false;
+      line++;
+      column = 0;
+      rowLine = line;
+    } else if (afterQuote) {
+      throw new CsvParseError(`Unexpected "${char}" after closing quote`, line, column);
+    } else if (char === '"') {
+      if (cell !== '') {
+        throw new CsvParseError('Unexpected quote inside an unquoted cell', line, column);
+      }
+      inQuotes = true;
+      quoteLine = line;
+      quoteColumn = column;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError('Unterminated quoted cell', quoteLine, quoteColumn);
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Serializes rows as CSV, quoting cells that contain delimiters, quotes or line breaks
+ */
+export function stringifyCsv(rows: string[][], delimiter: string = ','): string {
+  const quote = (cell: string) =>
+    cell.includes(delimiter) || /["\r\n]/.test(cell) || cell !== cell.trim()
+      ? `"${cell.replace(/"/g, '""')}"`
+      : cell;
+
+  return rows.map(row => row.map(quote).join(delimiter)).join('\r\n') + '\r\n';
+}
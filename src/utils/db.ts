@@ -0,0 +1,67 @@
+const DB_NAME = 'pokemon-scanner';
+const DB_VERSION = 2;
+
+export const SCAN_HISTORY_STORE = 'scan-history';
+export const PENDING_SCANS_STORE = 'pending-scans';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the app's IndexedDB database, creating its object stores on first use.
+ * The connection is shared; a failed open is retried on the next call.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser does not support IndexedDB'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SCAN_HISTORY_STORE)) {
+          db.createObjectStore(SCAN_HISTORY_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(PENDING_SCANS_STORE)) {
+          db.createObjectStore(PENDING_SCANS_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version open in another tab; reconnect on the next call
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error ?? new Error('Could not open the local database'));
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Runs one request against a store and resolves with its result once the
+ * transaction has committed
+ */
+export async function runStoreRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The database transaction was aborted'));
+  });
+}
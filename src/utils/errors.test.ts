@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { errorFromResponse, RequestError, withRetry } from './errors';
+import type { RequestErrorKind } from './errors';
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+/** An operation that fails with each error in turn, then answers 'done' */
+function failing(...errors: Error[]) {
+  const operation = vi.fn(async () => {
+    const error = errors[operation.mock.calls.length - 1];
+    if (error) throw error;
+    return 'done';
+  });
+  return operation;
+}
+
+const requestError = (kind: RequestErrorKind, retryAfterMs: number | null = null) =>
+  new RequestError(`Failed (${kind})`, kind, null, retryAfterMs);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('errorFromResponse', () => {
+  it('reads Retry-After in seconds', async () => {
+    const error = await errorFromResponse(jsonResponse(429, {}, { 'Retry-After': '12' }), 'Gemini');
+
+    expect(error).toMatchObject({ kind: 'rate-limit', status: 429, retryAfterMs: 12000 });
+  });
+
+  it('reads Retry-After as a date', async () => {
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+    const error = await errorFromResponse(
+      jsonResponse(429, {}, { 'Retry-After': 'Sun, 01 Mar 2026 12:00:30 GMT' }),
+      'Gemini'
+    );
+
+    expect(error.retryAfterMs).toBe(30000);
+  });
+
+  it('ignores a Retry-After it cannot read', async () => {
+    const error = await errorFromResponse(jsonResponse(429, {}, { 'Retry-After': 'soon' }), 'Gemini');
+
+    expect(error.retryAfterMs).toBeNull();
+  });
+
+  it.each([
+    [401, 'Unauthorized', 'invalid-key'],
+    [403, 'Forbidden', 'invalid-key'],
+    [400, 'API key not valid. Please pass a valid API key.', 'invalid-key'],
+    [400, 'Invalid value at contents[0]', 'request'],
+    [408, 'Timed out', 'server'],
+    [503, 'Overloaded', 'server'],
+    [404, 'Not found', 'request'],
+  ])('maps HTTP %i "%s" to %s', async (status, message, kind) => {
+    const error = await errorFromResponse(jsonResponse(status, { error: { message } }), 'Gemini');
+
+    expect(error).toMatchObject({ kind, status, message });
+  });
+
+  it('falls back to a message naming the service', async () => {
+    const error = await errorFromResponse(new Response('<html>Bad gateway</html>', { status: 502 }), 'OpenAI');
+
+    expect(error.message).toBe('Request to OpenAI failed (HTTP 502)');
+  });
+
+  it('keeps the kind the scan proxy passes on', async () => {
+    const error = await errorFromResponse(
+      jsonResponse(424, { error: { message: 'The provider rejected the key', kind: 'invalid-key' } }),
+      'the scan proxy'
+    );
+
+    expect(error).toMatchObject({ kind: 'invalid-key', status: 424, message: 'The provider rejected the key' });
+  });
+
+  it('ignores a kind it does not know', async () => {
+    const error = await errorFromResponse(jsonResponse(424, { error: { kind: 'toString' } }), 'the scan proxy');
+
+    expect(error.kind).toBe('request');
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures with backoff', async () => {
+    const operation = failing(requestError('network'), requestError('server'));
+    const onRetry = vi.fn();
+
+    const result = withRetry(operation, { baseDelayMs: 1000, onRetry });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('done');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([, attempt]) => attempt)).toEqual([1, 2]);
+    // Jitter keeps each wait between half and all of the doubled delay
+    const [[, , first], [, , second]] = onRetry.mock.calls;
+    expect(first).toBeGreaterThanOrEqual(500);
+    expect(first).toBeLessThanOrEqual(1000);
+    expect(second).toBeGreaterThanOrEqual(1000);
+    expect(second).toBeLessThanOrEqual(2000);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    const operation = failing(requestError('rate-limit', 5000));
+
+    const result = withRetry(operation);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(await result).toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the last attempt with its error', async () => {
+    const last = requestError('server');
+    const operation = failing(requestError('server'), requestError('server'), last);
+
+    const result = withRetry(operation, { maxAttempts: 3 });
+    const settled = expect(result).rejects.toBe(last);
+    await vi.runAllTimersAsync();
+
+    await settled;
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up when Retry-After is longer than it will wait', async () => {
+    const error = requestError('rate-limit', 60000);
+    const operation = failing(error);
+
+    await expect(withRetry(operation, { maxDelayMs: 30000 })).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it.each<[string, Error]>([
+    ['invalid-key', requestError('invalid-key')],
+    ['private-sheet', requestError('private-sheet')],
+    ['request', requestError('request')],
+    ['a plain Error', new Error('Reply could not be read')],
+  ])('does not retry %s', async (_, error) => {
+    const operation = failing(error);
+
+    await expect(withRetry(operation)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when aborted during the backoff', async () => {
+    const controller = new AbortController();
+    const operation = failing(requestError('network'));
+
+    const result = withRetry(operation, { signal: controller.signal, baseDelayMs: 10000 });
+    const settled = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    await settled;
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('does not start when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const operation = failing();
+
+    await expect(withRetry(operation, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(operation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+import { getTransport } from './transport';
+
+/**
+ * What went wrong with a request to a remote service:
+ * - 'invalid-key': the API key or sign-in was rejected
+ * - 'rate-limit': too many requests, or the quota is used up (HTTP 429)
+ * - 'network': the service could not be reached
+ * - 'server': the service failed on its side (HTTP 5xx)
+ * - 'private-sheet': the sheet doesn't exist or isn't shared publicly
+ * - 'invalid-url': the sheet URL isn't a Google Sheets link
+ * - 'request': any other rejected request
+ */
+export type RequestErrorKind =
+  | 'invalid-key'
+  | 'rate-limit'
+  | 'network'
+  | 'server'
+  | 'private-sheet'
+  | 'invalid-url'
+  | 'request';
+
+/** Every kind, to check one read from a response */
+const REQUEST_ERROR_KINDS: Record<RequestErrorKind, true> = {
+  'invalid-key': true,
+  'rate-limit': true,
+  'network': true,
+  'server': true,
+  'private-sheet': true,
+  'invalid-url': true,
+  'request': true,
+};
+
+/**
+ * Thrown for failed requests to the vision and sheet services. `status` is
+ * the HTTP status, if a response arrived; `retryAfterMs` is how long the
+ * service asked us to wait before trying again.
+ */
+export class RequestError extends Error {
+  kind: RequestErrorKind;
+  status: number | null;
+  retryAfterMs: number | null;
+
+  constructor(message: string, kind: RequestErrorKind, status: number | null = null, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'RequestError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Tries in total, including the first */
+  maxAttempts?: number;
+  /** Wait before the first retry; doubled for each one after it */
+  baseDelayMs?: number;
+  /** Longest wait worth retrying after; a longer Retry-After gives up instead */
+  maxDelayMs?: number;
+  onRetry?: (error: RequestError, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+/**
+ * True for the error fetch throws when its request is cancelled
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Failures that may pass on their own: worth trying again after a pause
+ */
+export function isRetryable(error: unknown): error is RequestError {
+  return error instanceof RequestError
+    && (error.kind === 'network' || error.kind === 'rate-limit' || error.kind === 'server');
+}
+
+/**
+ * Reads a Retry-After header, given either in seconds or as a date
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Turns an error response into a RequestError, using the message from a
+ * Google- or OpenAI-style JSON error body when there is one. A `kind` in
+ * the body, as the scan proxy sends for failures it passes on, is kept.
+ */
+export async function errorFromResponse(response: Response, service: string): Promise<RequestError> {
+  const errorData = await response.json().catch(() => null);
+  const message: string = errorData?.error?.message || `Request to ${service} failed (HTTP ${response.status})`;
+  const { status } = response;
+
+  const kind: unknown = errorData?.error?.kind;
+  if (typeof kind === 'string' && Object.hasOwn(REQUEST_ERROR_KINDS, kind)) {
+    return new RequestError(message, kind as RequestErrorKind, status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+
+  if (status === 429) {
+    return new RequestError(message, 'rate-limit', status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  // Gemini answers a bad key with 400 rather than 401
+  if (status === 401 || status === 403 || (status === 400 && /api[ _]?key/i.test(message))) {
+    return new RequestError(message, 'invalid-key', status);
+  }
+  if (status === 408 || status >= 500) {
+    return new RequestError(message, 'server', status);
+  }
+  return new RequestError(message, 'request', status);
+}
+
+/**
+ * fetch, through the current transport, that throws a RequestError for
+ * unreachable services and error responses. Cancelling through
+ * `init.signal` rejects with an AbortError.
+ */
+export async function fetchOrThrow(input: string, init: RequestInit, service: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await getTransport()(input, init);
+  } catch (error) {
+    // A replayed request that wasn't recorded says so itself
+    if (isAbortError(error) || error instanceof RequestError) {
+      throw error;
+    }
+    throw new RequestError(`Could not reach ${service}`, 'network');
+  }
+
+  if (!response.ok) {
+    throw await errorFromResponse(response, service);
+  }
+  return response;
+}
+
+/**
+ * Waits for `ms`, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs a request, trying again with exponential backoff (and jitter) after
+ * transient failures. Other errors, and cancellation, end it right away.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    signal,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    onRetry,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+
+    try {
+      return await operation();
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= maxAttempts) {
+        throw error;
+      }
+
+      const backoff = baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+      const delayMs = error.retryAfterMs ?? backoff;
+      if (delayMs > maxDelayMs) {
+        throw error;
+      }
+
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/** Frames this many bits or fewer apart are treated as the same view */
+export const DUPLICATE_FRAME_DISTANCE = 6;
+
+/** Width and height of the image a frame hash is computed from */
+export const HASH_WIDTH = 9;
+export const HASH_HEIGHT = 8;
+
+/**
+ * 64-bit difference hash of a frame scaled down to 9x8 RGBA pixels: each bit
+ * says whether a pixel is brighter than its right neighbour. It barely
+ * changes with lighting or small movements but flips when the page changes.
+ */
+export function differenceHash(pixels: Uint8ClampedArray): bigint {
+  if (pixels.length !== HASH_WIDTH * HASH_HEIGHT * 4) {
+    throw new Error(`Expected ${HASH_WIDTH}x${HASH_HEIGHT} RGBA pixels`);
+  }
+
+  const luminance = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114;
+  };
+
+  let hash = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      hash = (hash << 1n) | (luminance(x, y) > luminance(x + 1, y) ? 1n : 0n);
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function hammingDistance(a: bigint, b: bigint): number {
+  let distance = 0;
+  for (let diff = a ^ b; diff > 0n; diff >>= 1n) {
+    distance += Number(diff & 1n);
+  }
+  return distance;
+}
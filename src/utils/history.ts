@@ -0,0 +1,48 @@
+import type { ScanHistoryEntry } from '../types';
+import { runStoreRequest, SCAN_HISTORY_STORE } from './db';
+import { downscaleImage } from './image';
+
+/** Oldest scans are dropped beyond this many, to keep storage bounded */
+export const MAX_HISTORY_ENTRIES = 100;
+
+/** Longer side of the stored copy of each photo, in pixels */
+const HISTORY_IMAGE_SIZE = 800;
+
+/**
+ * All saved scans, newest first
+ */
+export async function loadScanHistory(): Promise<ScanHistoryEntry[]> {
+  const entries = await runStoreRequest<ScanHistoryEntry[]>(
+    SCAN_HISTORY_STORE,
+    'readonly',
+    store => store.getAll()
+  );
+  // Ids are assigned in insertion order
+  return entries.reverse();
+}
+
+/**
+ * Saves a finished scan with a downscaled copy of its photo and returns the
+ * stored entry. The oldest entries are removed once the history is full.
+ */
+export async function addScanHistory(
+  scan: Omit<ScanHistoryEntry, 'id' | 'image'>,
+  imageDataUrl: string
+): Promise<ScanHistoryEntry> {
+  const image = await downscaleImage(imageDataUrl, HISTORY_IMAGE_SIZE);
+  const record = { ...scan, image };
+
+  const id = await runStoreRequest(SCAN_HISTORY_STORE, 'readwrite', store => store.add(record));
+
+  const keys = await runStoreRequest(SCAN_HISTORY_STORE, 'readonly', store => store.getAllKeys());
+  const excess = keys.slice(0, Math.max(keys.length - MAX_HISTORY_ENTRIES, 0));
+  for (const key of excess) {
+    await runStoreRequest(SCAN_HISTORY_STORE, 'readwrite', store => store.delete(key));
+  }
+
+  return { ...record, id: id as number };
+}
+
+export async function deleteScanHistory(id: number): Promise<void> {
+  await runStoreRequest(SCAN_HISTORY_STORE, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,25 @@
+/**
+ * Shrinks an image data URL so its longer side is at most `maxDimension`
+ * pixels, re-encoded as JPEG. Smaller images are only re-encoded.
+ */
+export function downscaleImage(dataUrl: string, maxDimension: number, quality: number = 0.8): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.naturalWidth * scale);
+      canvas.height = Math.round(image.naturalHeight * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Could not resize the image'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+    image.onerror = () => reject(new Error('Could not read the image'));
+    image.src = dataUrl;
+  });
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { decryptApiKey, encryptApiKey, KeyVaultError, PBKDF2_ITERATIONS } from './keyVault';
+
+describe('key vault', () => {
+  it('opens with the passphrase it was saved with', async () => {
+    const vault = await encryptApiKey('AIza-secret', 'correct horse');
+
+    expect(vault).toMatchObject({ version: 1, iterations: PBKDF2_ITERATIONS });
+    expect(JSON.stringify(vault)).not.toContain('AIza-secret');
+    expect(await decryptApiKey(vault, 'correct horse')).toBe('AIza-secret');
+  });
+
+  it('fails with a KeyVaultError for a wrong passphrase', async () => {
+    const vault = await encryptApiKey('AIza-secret', 'correct horse');
+
+    await expect(decryptApiKey(vault, 'battery staple')).rejects.toBeInstanceOf(KeyVaultError);
+  });
+
+  it('uses a fresh salt and IV for each save', async () => {
+    const first = await encryptApiKey('AIza-secret', 'correct horse');
+    const second = await encryptApiKey('AIza-secret', 'correct horse');
+
+    expect(second.salt).not.toBe(first.salt);
+    expect(second.iv).not.toBe(first.iv);
+    expect(second.ciphertext).not.toBe(first.ciphertext);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * An API key encrypted with a passphrase: AES-GCM, with the key derived
+ * from the passphrase by PBKDF2 (SHA-256). Binary fields are base64.
+ */
+export interface KeyVault {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/** PBKDF2 rounds for new vaults, as recommended by OWASP for SHA-256 */
+export const PBKDF2_ITERATIONS = 600_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Thrown when a vault can't be opened, usually because of a wrong passphrase
+ */
+export class KeyVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyVaultError';
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypts the API key with the passphrase, using a fresh salt and IV
+ */
+export async function encryptApiKey(apiKey: string, passphrase: string): Promise<KeyVault> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey));
+
+  return {
+    version: 1,
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Opens the vault with the passphrase. AES-GCM checks the ciphertext, so a
+ * wrong passphrase fails rather than producing a garbled key.
+ */
+export async function decryptApiKey(vault: KeyVault, passphrase: string): Promise<string> {
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.ciphertext));
+  } catch {
+    throw new KeyVaultError('Wrong passphrase');
+  }
+  return new TextDecoder().decode(plaintext);
+}
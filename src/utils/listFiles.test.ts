@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { CardEntry } from '../types';
+import { parseCardEntry } from './cards';
+import { detectListFormat, exportCardList, mergeCardLists, parseListFile } from './listFiles';
+import type { ListFileFormat } from './listFiles';
+import { DEFAULT_COLUMN_MAPPING } from './storage';
+
+const card = (raw: string, fields: Partial<Omit<CardEntry, 'name'>> = {}) => parseCardEntry(raw, fields);
+
+const LIST: CardEntry[] = [
+  card('Charizard ex 199/165', { setCode: 'MEW', rarity: 'Special Illustration Rare', quantity: 2 }),
+  card('Mr. Mime, Galarian', { notes: 'trade "maybe"' }),
+  card('Pikachu V'),
+];
+
+describe('detectListFormat', () => {
+  it('picks the format from the extension', () => {
+    expect(detectListFormat('missing.CSV')).toBe('csv');
+    expect(detectListFormat('backup.json')).toBe('json');
+    expect(detectListFormat('list.txt')).toBe('txt');
+    expect(detectListFormat('notes')).toBe('txt');
+  });
+});
+
+describe('parseListFile', () => {
+  it('reads CSV columns by their headers, in any order', () => {
+    const text = 'Qty,Card Name,Set,No.\n2,Charizard ex,MEW,199/165\n,,,\n1,Pikachu V,,\n';
+
+    expect(parseListFile('list.csv', text, DEFAULT_COLUMN_MAPPING)).toEqual([
+      card('Charizard ex', { setCode: 'MEW', number: '199/165', quantity: 2 }),
+      card('Pikachu V', { quantity: 1 }),
+    ]);
+  });
+
+  it('reads a headerless CSV from the fallback mapping', () => {
+    const text = 'Charizard ex,199/165\nPikachu V,\n';
+
+    expect(parseListFile('list.csv', text, { ...DEFAULT_COLUMN_MAPPING, number: 'B' })).toEqual([
+      card('Charizard ex', { number: '199/165' }),
+      card('Pikachu V'),
+    ]);
+  });
+
+  it('reads JSON names and card objects, skipping entries without a name', () => {
+    const text = JSON.stringify(['Pikachu V', '  ', { name: 'Charizard ex', number: '199/165', quantity: 2 }, { name: '' }, 7, null]);
+
+    expect(parseListFile('list.json', text, DEFAULT_COLUMN_MAPPING)).toEqual([
+      card('Pikachu V'),
+      card('Charizard ex', { number: '199/165', quantity: 2 }),
+    ]);
+  });
+
+  it('reads text one card per line, skipping blanks and comments', () => {
+    const text = '# Binder 1\r\nCharizard ex 199/165 (MEW)\r\n\r\n  Pikachu V  \n';
+
+    expect(parseListFile('list.txt', text, DEFAULT_COLUMN_MAPPING)).toEqual([
+      card('Charizard ex', { number: '199/165', setCode: 'MEW' }),
+      card('Pikachu V'),
+    ]);
+  });
+
+  it.each([
+    ['list.json', '{"name":', 'The file is not valid JSON'],
+    ['list.json', '{"name":"Pikachu"}', 'Expected a JSON array of cards'],
+    ['list.csv', 'Name\n"Pikachu', 'Unterminated quoted cell (line 2, column 1)'],
+  ])('rejects a malformed %s', (fileName, text, message) => {
+    expect(() => parseListFile(fileName, text, DEFAULT_COLUMN_MAPPING)).toThrow(message);
+  });
+
+  it('reads an empty file as an empty list', () => {
+    expect(parseListFile('list.csv', '', DEFAULT_COLUMN_MAPPING)).toEqual([]);
+    expect(parseListFile('list.json', '[]', DEFAULT_COLUMN_MAPPING)).toEqual([]);
+    expect(parseListFile('list.txt', '\n', DEFAULT_COLUMN_MAPPING)).toEqual([]);
+  });
+});
+
+describe('exportCardList', () => {
+  it('writes CSV with a header row and quoted cells', () => {
+    expect(exportCardList(LIST.slice(0, 2), 'csv')).toBe(
+      'Name,Set,Number,Variant,Rarity,Quantity,Notes\r\n'
+      + 'Charizard ex,MEW,199/165,ex,Special Illustration Rare,2,\r\n'
+      + '"Mr. Mime, Galarian",,,,,,"trade ""maybe"""\r\n'
+    );
+  });
+
+  it.each<[ListFileFormat, CardEntry[]]>([
+    ['csv', LIST],
+    ['json', LIST],
+    // Text keeps what a list entry can say: name, number and set
+    ['txt', [card('Charizard ex', { number: '199/165', setCode: 'MEW' }), card('Mr. Mime, Galarian'), card('Pikachu V')]],
+  ])('reads its own %s export back', (format, expected) => {
+    expect(parseListFile(`list.${format}`, exportCardList(LIST, format), DEFAULT_COLUMN_MAPPING)).toEqual(expected);
+  });
+});
+
+describe('mergeCardLists', () => {
+  it('adds new cards and counts duplicates by name, variant and number', () => {
+    const existing = [card('Pikachu V'), card('Charizard ex 199/165')];
+    const incoming = [card('pikachu v'), card('Charizard ex 4/102'), card('Charizard ex 199/165'), card('Mew'), card('Mew')];
+
+    expect(mergeCardLists(existing, incoming)).toEqual({
+      merged: [...existing, card('Charizard ex 4/102'), card('Mew')],
+      added: 2,
+      duplicates: 3,
+    });
+  });
+
+  it('keeps the existing entry when both lists have the card', () => {
+    const existing = [card('Mew', { notes: 'mine' })];
+
+    expect(mergeCardLists(existing, [card('Mew', { notes: 'theirs' })]).merged).toEqual(existing);
+  });
+});
@@ -0,0 +1,181 @@
+import type { CardEntry, ColumnMapping } from '../types';
+import { formatCardEntry, parseCardEntry } from './cards';
+import { parseCsv, stringifyCsv } from './csv';
+import { cardKey } from './matching';
+import { columnLetter, guessColumnMapping, rowToCardEntry } from './sheets';
+
+export type ListFileFormat = 'csv' | 'json' | 'txt';
+
+const CSV_HEADERS: Array<[keyof ColumnMapping, string]> = [
+  ['name', 'Name'],
+  ['setCode', 'Set'],
+  ['number', 'Number'],
+  ['variant', 'Variant'],
+  ['rarity', 'Rarity'],
+  ['quantity', 'Quantity'],
+  ['notes', 'Notes'],
+];
+
+const MIME_TYPES: Record<ListFileFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  txt: 'text/plain',
+};
+
+/**
+ * Picks the format from the file extension, falling back to plain text
+ */
+export function detectListFormat(fileName: string): ListFileFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'json') return 'json';
+  return 'txt';
+}
+
+/**
+ * Reads a CSV file. The header row is matched the same way as sheet headers;
+ * without a recognizable name column, the first column is used.
+ */
+function parseCsvList(text: string, fallbackMapping: ColumnMapping): CardEntry[] {
+  const rows = parseCsv(text).map(row => row.map(value => value.trim()));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const headers = rows[0].map((label, index) => ({ column: columnLetter(index), label }));
+  const guessed = guessColumnMapping(headers);
+
+  // No recognizable header: treat every row as data
+  if (!guessed.name) {
+    const mapping = rows[0].length === 1 ? { ...fallbackMapping, name: 'A' } : fallbackMapping;
+    return rows
+      .map(row => rowToCardEntry(row, mapping))
+      .filter((card): card is CardEntry => card !== null);
+  }
+
+  const mapping: ColumnMapping = {
+    name: guessed.name,
+    setCode: guessed.setCode ?? '',
+    number: guessed.number ?? '',
+    variant: guessed.variant ?? '',
+    rarity: guessed.rarity ?? '',
+    quantity: guessed.quantity ?? '',
+    notes: guessed.notes ?? '',
+  };
+
+  return rows
+    .slice(1)
+    .map(row => rowToCardEntry(row, mapping))
+    .filter((card): card is CardEntry => card !== null);
+}
+
+/**
+ * Reads a JSON array of card names or card objects (as written by the export)
+ */
+function parseJsonList(text: string): CardEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error('Expected a JSON array of cards');
+  }
+
+  const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+  return data.flatMap((item): CardEntry[] => {
+    if (typeof item === 'string') {
+      return item.trim() ? [parseCardEntry(item)] : [];
+    }
+    if (!item || typeof item !== 'object' || typeof item.name !== 'string' || !item.name.trim()) {
+      return [];
+    }
+    return [parseCardEntry(item.name, {
+      setCode: optionalString(item.setCode),
+      number: optionalString(item.number),
+      variant: optionalString(item.variant),
+      rarity: optionalString(item.rarity),
+      quantity: typeof item.quantity === 'number' ? item.quantity : null,
+      notes: optionalString(item.notes),
+    })];
+  });
+}
+
+/**
+ * Parses an uploaded list file into card entries. Plain text files hold one
+ * card per line, in the same free-form style as a sheet's name column.
+ */
+export function parseListFile(fileName: string, text: string, fallbackMapping: ColumnMapping): CardEntry[] {
+  switch (detectListFormat(fileName)) {
+    case 'csv':
+      return parseCsvList(text, fallbackMapping);
+    case 'json':
+      return parseJsonList(text);
+    case 'txt':
+      return text
+        .split(/\r\n|\r|\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => parseCardEntry(line));
+  }
+}
+
+/**
+ * Adds incoming cards to the list, skipping any already present by name, variant and number
+ */
+export function mergeCardLists(
+  existing: CardEntry[],
+  incoming: CardEntry[]
+): { merged: CardEntry[]; added: number; duplicates: number } {
+  const keys = new Set(existing.map(cardKey));
+  const merged = [...existing];
+  let duplicates = 0;
+
+  for (const card of incoming) {
+    const key = cardKey(card);
+    if (keys.has(key)) {
+      duplicates++;
+      continue;
+    }
+    keys.add(key);
+    merged.push(card);
+  }
+
+  return { merged, added: merged.length - existing.length, duplicates };
+}
+
+/**
+ * Serializes the list in the given format; every format can be imported again
+ */
+export function exportCardList(list: CardEntry[], format: ListFileFormat): string {
+  switch (format) {
+    case 'csv':
+      return stringifyCsv([
+        CSV_HEADERS.map(([, label]) => label),
+        ...list.map(card => CSV_HEADERS.map(([field]) => {
+          const value = card[field];
+          return value === null ? '' : String(value);
+        })),
+      ]);
+    case 'json':
+      return JSON.stringify(list, null, 2) + '\n';
+    case 'txt':
+      return list.map(formatCardEntry).join('\n') + '\n';
+  }
+}
+
+/**
+ * Offers text content to the user as a file download
+ */
+export function downloadTextFile(content: string, fileName: string, format: ListFileFormat): void {
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
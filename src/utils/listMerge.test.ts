@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { CardEntry } from '../types';
+import { parseCardEntry } from './cards';
+import { isListDiverged, planListMerge } from './listMerge';
+
+const card = (raw: string, fields: Partial<Omit<CardEntry, 'name'>> = {}) => parseCardEntry(raw, fields);
+const names = (list: CardEntry[]) => list.map(entry => entry.name);
+
+const BASE = [card('Pikachu V'), card('Charizard ex 199/165'), card('Mew'), card('Eevee')];
+
+describe('isListDiverged', () => {
+  it('ignores order and entry details', () => {
+    expect(isListDiverged(BASE, [...BASE].reverse())).toBe(false);
+    expect(isListDiverged(BASE, BASE.map(entry => ({ ...entry, notes: 'edited' })))).toBe(false);
+  });
+
+  it('notices added and removed cards', () => {
+    expect(isListDiverged(BASE, [...BASE, card('Snorlax')])).toBe(true);
+    expect(isListDiverged(BASE, BASE.slice(1))).toBe(true);
+    expect(isListDiverged(BASE, [...BASE.slice(1), card('Charizard ex 4/102')])).toBe(true);
+  });
+});
+
+describe('planListMerge', () => {
+  it('keeps additions and removals from both sides', () => {
+    const local = [...BASE.filter(entry => entry.name !== 'Mew'), card('Snorlax')];
+    const incoming = [...BASE.filter(entry => entry.name !== 'Eevee'), card('Umbreon VMAX')];
+
+    const plan = planListMerge(BASE, local, incoming);
+
+    expect(names(plan.merged)).toEqual(['Pikachu V', 'Charizard ex', 'Umbreon VMAX', 'Snorlax']);
+    expect(names(plan.localAdded)).toEqual(['Snorlax']);
+    expect(names(plan.localRemoved)).toEqual(['Mew']);
+    expect(names(plan.sheetAdded)).toEqual(['Umbreon VMAX']);
+    expect(names(plan.sheetRemoved)).toEqual(['Eevee']);
+    expect(plan.incoming).toBe(incoming);
+  });
+
+  it('drops a card removed on both sides once', () => {
+    const without = BASE.filter(entry => entry.name !== 'Mew');
+
+    const plan = planListMerge(BASE, without, without);
+
+    expect(names(plan.merged)).toEqual(['Pikachu V', 'Charizard ex', 'Eevee']);
+    expect(names(plan.localRemoved)).toEqual(['Mew']);
+    expect(names(plan.sheetRemoved)).toEqual(['Mew']);
+  });
+
+  it('adds a card added on both sides once', () => {
+    const plan = planListMerge(BASE, [...BASE, card('Snorlax', { notes: 'mine' })], [...BASE, card('snorlax')]);
+
+    expect(plan.merged).toHaveLength(5);
+    expect(plan.merged[4]).toEqual(card('Snorlax', { notes: 'mine' }));
+  });
+
+  it('keeps local edits to a card the sheet also edited', () => {
+    const local = BASE.map(entry => (entry.name === 'Mew' ? { ...entry, notes: 'binder 2', quantity: 3 } : entry));
+    const incoming = BASE.map(entry => (entry.name === 'Mew' ? { ...entry, rarity: 'Promo', quantity: 1 } : entry));
+
+    const plan = planListMerge(BASE, local, incoming);
+
+    expect(plan.merged.find(entry => entry.name === 'Mew')).toMatchObject({ notes: 'binder 2', quantity: 3, rarity: null });
+    expect(plan.sheetAdded).toEqual([]);
+    expect(plan.localAdded).toEqual([]);
+  });
+
+  it('removes a card deleted locally even if the sheet edited it', () => {
+    const local = BASE.filter(entry => entry.name !== 'Mew');
+    const incoming = BASE.map(entry => (entry.name === 'Mew' ? { ...entry, notes: 'sheet note' } : entry));
+
+    expect(names(planListMerge(BASE, local, incoming).merged)).not.toContain('Mew');
+  });
+
+  it('treats a changed number as a different card', () => {
+    const local = BASE.map(entry => (entry.name === 'Charizard ex' ? card('Charizard ex 4/102') : entry));
+
+    const plan = planListMerge(BASE, local, BASE);
+
+    expect(plan.merged.filter(entry => entry.name === 'Charizard ex').map(entry => entry.number)).toEqual(['4/102']);
+  });
+});
@@ -0,0 +1,50 @@
+import type { CardEntry } from '../types';
+import { cardKey } from './matching';
+
+/**
+ * Result of reconciling local edits with a fresh copy of the sheet.
+ * `base` is the list as it was last loaded from the sheet.
+ */
+export interface ListMergePlan {
+  incoming: CardEntry[];
+  merged: CardEntry[];
+  sheetAdded: CardEntry[];
+  sheetRemoved: CardEntry[];
+  localAdded: CardEntry[];
+  localRemoved: CardEntry[];
+}
+
+function difference(list: CardEntry[], other: CardEntry[]): CardEntry[] {
+  const keys = new Set(other.map(cardKey));
+  return list.filter(card => !keys.has(cardKey(card)));
+}
+
+/**
+ * True if the local list has been edited since it was last loaded from the sheet.
+ * Only card identity counts; the order of the list doesn't matter.
+ */
+export function isListDiverged(base: CardEntry[], local: CardEntry[]): boolean {
+  return difference(base, local).length > 0 || difference(local, base).length > 0;
+}
+
+/**
+ * Three-way merge of the local list and the sheet against the last loaded copy:
+ * cards added or removed on either side stay added or removed. Local edits to
+ * a card that is still on both sides (e.g. notes) are kept.
+ */
+export function planListMerge(base: CardEntry[], local: CardEntry[], incoming: CardEntry[]): ListMergePlan {
+  const localAdded = difference(local, base);
+  const localRemoved = difference(base, local);
+  const sheetAdded = difference(incoming, base);
+  const sheetRemoved = difference(base, incoming);
+
+  const removedKeys = new Set(localRemoved.map(cardKey));
+  const localByKey = new Map(local.map(card => [cardKey(card), card]));
+
+  const merged = incoming
+    .filter(card => !removedKeys.has(cardKey(card)))
+    .map(card => localByKey.get(cardKey(card)) ?? card);
+  merged.push(...difference(localAdded, incoming));
+
+  return { incoming, merged, sheetAdded, sheetRemoved, localAdded, localRemoved };
+}
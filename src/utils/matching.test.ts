@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { parseCardEntry } from './cards';
+import { findMatchingCard, normalizeName } from './matching';
+
+const list = (...names: string[]) => names.map(name => parseCardEntry(name));
+
+describe('findMatchingCard', () => {
+  it('matches an exact name', () => {
+    const result = findMatchingCard('Pikachu', list('Pikachu', 'Raichu'));
+    expect(result.match?.name).toBe('Pikachu');
+    expect(result.ambiguous).toBe(false);
+  });
+
+  it('reports a tie between printings the read name cannot separate', () => {
+    const result = findMatchingCard('Charizard', list('Charizard 4/102', 'Charizard 11/108'));
+    expect(result).toMatchObject({ match: null, ambiguous: true });
+  });
+
+  it('separates printings by the number read', () => {
+    const cards = list('Charizard 4/102', 'Charizard 11/108');
+    expect(findMatchingCard({ name: 'Charizard', number: '11/108' }, cards).match?.number).toBe('11/108');
+  });
+
+  it('separates printings by the set read', () => {
+    const cards = list('Charizard 4/102 (BS)', 'Charizard 4/102 (B2)');
+    const result = findMatchingCard({ name: 'Charizard', number: '4/102', set: 'bs' }, cards);
+    expect(result.match?.setCode).toBe('BS');
+  });
+
+  it('prefers the entry for the printing read over a generic entry', () => {
+    const cards = list('Charizard', 'Charizard 4/102');
+    expect(findMatchingCard({ name: 'Charizard', number: '4/102' }, cards).match?.number).toBe('4/102');
+    expect(findMatchingCard('Charizard', cards).match?.number).toBeNull();
+  });
+
+  it('rejects substring collisions', () => {
+    expect(findMatchingCard('Mew', list('Mewtwo', 'Mew Duo'))).toMatchObject({ match: null, ambiguous: true });
+  });
+
+  it('tolerates small misreads above the threshold', () => {
+    expect(findMatchingCard('Charizrd', list('Charizard', 'Blastoise')).match?.name).toBe('Charizard');
+    expect(findMatchingCard('Charizrd', list('Charizard'), 0.95).match).toBeNull();
+  });
+});
+
+describe('normalizeName', () => {
+  it('folds accents', () => {
+    expect(normalizeName('Flabébé')).toBe(normalizeName('Flabebe'));
+    expect(findMatchingCard('Flabebe', list('Flabébé')).confidence).toBe(1);
+  });
+
+  it('keeps ♀ and ♂ apart', () => {
+    expect(normalizeName('Nidoran♀')).not.toBe(normalizeName('Nidoran♂'));
+    expect(findMatchingCard('Nidoran♀', list('Nidoran♂')).match).toBeNull();
+    expect(findMatchingCard('Nidoran♀', list('Nidoran♂', 'Nidoran♀')).match?.name).toBe('Nidoran♀');
+  });
+});
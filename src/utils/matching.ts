@@ -0,0 +1,235 @@
+import type { CardEntry } from '../types';
+import { baseName, normalizeNumber, normalizeVariant, parseCardEntry } from './cards';
+
+/**
+ * Minimum similarity for a detected name to count as a match
+ */
+export const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+/**
+ * Two different cards scoring within this margin of each other are treated
+ * as ambiguous rather than picking whichever comes first in the list
+ */
+const AMBIGUITY_MARGIN = 0.05;
+
+/**
+ * Entries without a variant match any variant of the name, and entries with a
+ * number can't be confirmed when the number wasn't read. Both score slightly
+ * lower so that an entry for the exact printing wins when there is one.
+ */
+const GENERIC_VARIANT_PENALTY = 0.95;
+const UNCONFIRMED_NUMBER_PENALTY = 0.98;
+
+/**
+ * The ♀ or ♂ in a normalized name, or '' if it has neither
+ */
+function genderOf(name: string): string {
+  return name.match(/[♀♂]/)?.[0] ?? '';
+}
+
+export interface MatchCandidate {
+  card: CardEntry;
+  score: number;
+  kind: 'exact' | 'partial' | 'fuzzy';
+}
+
+export interface MatchResult {
+  match: CardEntry | null;
+  confidence: number;
+  ambiguous: boolean;
+}
+
+/**
+ * What was read from the photo: a free-form name, or a name plus the
+ * collector number and set if the model reported them
+ */
+export type CardQuery = string | { name: string; number?: string | null; set?: string | null };
+
+/**
+ * Normalizes a Pokemon name for comparison
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    // Fold accents: "Flabébé" -> "flabebe"
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // Remove special characters, except ♀/♂: "Nidoran♀" and "Nidoran♂" are different cards
+    .replace(/[^a-z0-9♀♂]/g, '')
+    // Handle common OCR mistakes
+    .replace(/0/g, 'o')
+    .replace(/1/g, 'l')
+    .replace(/5/g, 's');
+}
+
+/**
+ * Identity key for de-duplicating card entries: base name, variant and number
+ */
+export function cardKey(entry: CardEntry): string {
+  return [
+    normalizeName(baseName(entry)),
+    normalizeVariant(entry.variant),
+    normalizeNumber(entry.number),
+  ].join('|');
+}
+
+/**
+ * Similarity between two normalized names, from 0 (unrelated) to 1 (identical)
+ */
+export function similarity(a: string, b: string): number {
+  const maxLen = Math.max(a.length, b.length);
+  if (maxLen === 0) {
+    return 0;
+  }
+  return 1 - levenshteinDistance(a, b) / maxLen;
+}
+
+function toCardEntry(query: CardQuery): CardEntry {
+  if (typeof query === 'string') {
+    return parseCardEntry(query);
+  }
+  return parseCardEntry(query.name, { number: query.number ?? undefined, setCode: query.set ?? undefined });
+}
+
+/**
+ * Narrows printings that share a name to the one whose number, then set,
+ * agrees with what was read. Null if that doesn't leave exactly one.
+ */
+function separatePrintings(tied: MatchCandidate[], query: CardEntry): MatchCandidate | null {
+  const queryNumber = normalizeNumber(query.number);
+  const querySet = query.setCode?.toLowerCase() ?? '';
+
+  let remaining = tied;
+  if (queryNumber) {
+    const numbered = remaining.filter(candidate => normalizeNumber(candidate.card.number) === queryNumber);
+    if (numbered.length > 0) remaining = numbered;
+  }
+  if (querySet && remaining.length > 1) {
+    const inSet = remaining.filter(candidate => candidate.card.setCode?.toLowerCase() === querySet);
+    if (inSet.length > 0) remaining = inSet;
+  }
+  return remaining.length === 1 ? remaining[0] : null;
+}
+
+/**
+ * Scores every card in the list against what was read from the photo, best
+ * first. Entries for a specific variant, number or ♀/♂ are skipped unless
+ * the detection has the same one, and duplicate entries are only listed once.
+ */
+export function rankCandidates(detected: CardQuery, cards: CardEntry[]): MatchCandidate[] {
+  const query = toCardEntry(detected);
+  const queryName = normalizeName(baseName(query));
+  if (!queryName) {
+    return [];
+  }
+
+  const queryVariant = normalizeVariant(query.variant);
+  const queryNumber = normalizeNumber(query.number);
+  const queryGender = genderOf(queryName);
+
+  const seen = new Set<string>();
+  const candidates: MatchCandidate[] = [];
+
+  for (const card of cards) {
+    const key = cardKey(card);
+    const name = normalizeName(baseName(card));
+    if (!name || seen.has(key)) continue;
+    seen.add(key);
+
+    const variant = normalizeVariant(card.variant);
+    const number = normalizeNumber(card.number);
+    if (variant && variant !== queryVariant) continue;
+    if (number && queryNumber && number !== queryNumber) continue;
+    // One letter apart, so similarity alone would match them
+    if (genderOf(name) && queryGender && genderOf(name) !== queryGender) continue;
+
+    let kind: MatchCandidate['kind'] = 'fuzzy';
+    if (name === queryName) {
+      kind = 'exact';
+    } else if (name.includes(queryName) || queryName.includes(name)) {
+      kind = 'partial';
+    }
+
+    let score = kind === 'exact' ? 1.0 : similarity(queryName, name);
+    if (!variant && queryVariant) {
+      score *= GENERIC_VARIANT_PENALTY;
+    }
+    if (number && !queryNumber) {
+      score *= UNCONFIRMED_NUMBER_PENALTY;
+    }
+
+    if (score > 0) {
+      candidates.push({ card, score, kind });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Checks if a detected card matches any card in the list. Returns the best
+ * candidate above the threshold, unless a different card scores almost as
+ * well or it is one of several substring hits ("Mew" vs "Mewtwo"/"Mew Duo").
+ * An exact name shared by several printings ("Charizard 4/102" and
+ * "Charizard 11/108") is a tie unless the number or set read picks one.
+ * `confidence` is the similarity of the best candidate, matched or not.
+ */
+export function findMatchingCard(
+  detected: CardQuery,
+  cards: CardEntry[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): MatchResult {
+  const [best, ...rest] = rankCandidates(detected, cards);
+
+  if (!best) {
+    return { match: null, confidence: 0, ambiguous: false };
+  }
+
+  if (best.kind === 'exact') {
+    const tied = rest.filter(candidate => candidate.kind === 'exact' && candidate.score === best.score);
+    const match = tied.length === 0 ? best : separatePrintings([best, ...tied], toCardEntry(detected));
+    return { match: match?.card ?? null, confidence: best.score, ambiguous: match === null };
+  }
+
+  const ambiguous =
+    rest.some(candidate => best.score - candidate.score <= AMBIGUITY_MARGIN) ||
+    (best.kind === 'partial' && rest.some(candidate => candidate.kind === 'partial'));
+
+  if (ambiguous || best.score < threshold) {
+    return { match: null, confidence: best.score, ambiguous };
+  }
+
+  return { match: best.card, confidence: best.score, ambiguous: false };
+}
+
+/**
+ * Calculate Levenshtein distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  const matrix: number[][] = [];
+
+  for (let i = 0; i <= b.length; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= a.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      if (b.charAt(i - 1) === a.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        );
+      }
+    }
+  }
+
+  return matrix[b.length][a.length];
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { closeJsonArray, ModelOutputError, parseJsonArray } from './modelOutput';
+
+describe('closeJsonArray', () => {
+  it.each([
+    ['a complete array', '[{"name":"Pikachu"}]', '[{"name":"Pikachu"}]'],
+    ['stray text after the array', '[{"name":"Pikachu"}] Hope this helps!', '[{"name":"Pikachu"}]'],
+    ['a reply cut off mid-string', '[{"name":"Pikachu"},{"name":"Eev', '[{"name":"Pikachu"}]'],
+    ['a reply cut off mid-object', '[{"name":"Pikachu"},{"name":"Eevee","box_2d":[10,20', '[{"name":"Pikachu"}]'],
+    ['a reply cut off after a trailing comma', '[{"name":"Pikachu"},', '[{"name":"Pikachu"}]'],
+    ['a cut-off string of strings', '["Pikachu","Eev', '["Pikachu"]'],
+    ['brackets and quotes inside strings', '[{"name":"Mr. \\"Mime\\" [JP]"},{"na', '[{"name":"Mr. \\"Mime\\" [JP]"}]'],
+    ['nothing complete', '[{"name":"Pika', '[]'],
+  ])('repairs %s', (_, text, expected) => {
+    expect(closeJsonArray(text)).toBe(expected);
+  });
+
+  it('leaves text that is not an array', () => {
+    expect(closeJsonArray('{"name":"Pikachu"}')).toBeNull();
+  });
+});
+
+describe('parseJsonArray', () => {
+  it.each([
+    ['a plain array', '[{"name":"Pikachu"}]', [{ name: 'Pikachu' }]],
+    ['a fenced reply', '```json\n[{"name":"Pikachu"}]\n```', [{ name: 'Pikachu' }]],
+    ['a fence without a language', 'Found one:\n```\n[{"name":"Pikachu"}]\n```\nDone.', [{ name: 'Pikachu' }]],
+    ['a fence that was cut off', '```json\n[{"name":"Pikachu"},{"name":"Ee', [{ name: 'Pikachu' }]],
+    ['prose before the array', 'Here are the cards: [{"name":"Pikachu"}]', [{ name: 'Pikachu' }]],
+    ['a reply cut off mid-object', '[{"name":"Pikachu"},{"name":"Eevee","confidence":0.', [{ name: 'Pikachu' }]],
+    ['an empty array', '[]', []],
+  ])('reads %s', (_, reply, expected) => {
+    expect(parseJsonArray(reply)).toEqual(expected);
+  });
+
+  it.each([
+    ['prose without JSON', 'I could not find any cards in this photo.'],
+    ['an object instead of an array', '{"cards":[{"name":"Pikachu"}]}'],
+    ['an empty reply', ''],
+  ])('rejects %s as malformed', (_, reply) => {
+    let error: unknown;
+    try {
+      parseJsonArray(reply);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ModelOutputError);
+    expect(error).toMatchObject({ problem: 'malformed' });
+  });
+});
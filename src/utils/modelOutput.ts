@@ -0,0 +1,110 @@
+/**
+ * Why a model reply could not be used:
+ * - 'blocked': the provider refused to answer, e.g. for safety reasons
+ * - 'truncated': the reply was cut off before it was complete
+ * - 'malformed': the reply is not the JSON array that was asked for
+ */
+export type ModelOutputProblem = 'blocked' | 'truncated' | 'malformed';
+
+/**
+ * Thrown when a vision model's reply can't be turned into detections.
+ * `partialText` keeps whatever a truncated reply contained.
+ */
+export class ModelOutputError extends Error {
+  problem: ModelOutputProblem;
+  partialText: string;
+
+  constructor(message: string, problem: ModelOutputProblem, partialText: string = '') {
+    super(message);
+    this.name = 'ModelOutputError';
+    this.problem = problem;
+    this.partialText = partialText;
+  }
+}
+
+/**
+ * Finds the JSON in a model reply: the contents of a markdown code fence
+ * (closed or not), or the text from the first bracket on
+ */
+export function extractJsonText(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+  if (fenced) {
+    return fenced[1].trim();
+  }
+
+  const trimmed = text.trim();
+  const start = trimmed.search(/[[{]/);
+  return start > 0 ? trimmed.slice(start) : trimmed;
+}
+
+/**
+ * Repairs a JSON array that was cut off or followed by stray text: keeps
+ * every element that was complete and closes the array after the last one.
+ * Returns null if the text is not an array.
+ */
+export function closeJsonArray(text: string): string | null {
+  if (!text.startsWith('[')) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // End of the last complete top-level element
+  let lastComplete = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (depth === 1) lastComplete = i + 1;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        return text.slice(0, i + 1);
+      }
+      if (depth === 1) lastComplete = i + 1;
+    }
+  }
+
+  return lastComplete === -1 ? '[]' : `${text.slice(0, lastComplete)}]`;
+}
+
+/**
+ * Parses a model reply that should be a JSON array, repairing it if it was
+ * cut off. Throws a 'malformed' ModelOutputError if no array can be read.
+ */
+export function parseJsonArray(rawResponse: string): unknown[] {
+  const text = extractJsonText(rawResponse);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    const repaired = closeJsonArray(text);
+    try {
+      parsed = repaired === null ? null : JSON.parse(repaired);
+    } catch {
+      parsed = null;
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new ModelOutputError("The vision model's reply could not be read as a list of cards", 'malformed');
+  }
+  return parsed;
+}
@@ -0,0 +1,26 @@
+import type { PendingScan, ScanMode } from '../types';
+import { runStoreRequest, PENDING_SCANS_STORE } from './db';
+
+/**
+ * Photos waiting for a connection, oldest first
+ */
+export async function loadPendingScans(): Promise<PendingScan[]> {
+  return runStoreRequest<PendingScan[]>(PENDING_SCANS_STORE, 'readonly', store => store.getAll());
+}
+
+/**
+ * Queues a photo to be scanned once the device is back online
+ */
+export async function addPendingScan(image: string, scanMode: ScanMode): Promise<PendingScan> {
+  const record = { timestamp: Date.now(), image, scanMode, attempts: 0, lastError: null, held: false };
+  const id = await runStoreRequest(PENDING_SCANS_STORE, 'readwrite', store => store.add(record));
+  return { ...record, id: id as number };
+}
+
+export async function updatePendingScan(scan: PendingScan): Promise<void> {
+  await runStoreRequest(PENDING_SCANS_STORE, 'readwrite', store => store.put(scan));
+}
+
+export async function deletePendingScan(id: number): Promise<void> {
+  await runStoreRequest(PENDING_SCANS_STORE, 'readwrite', store => store.delete(id));
+}
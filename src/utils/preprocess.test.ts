@@ -0,0 +1,145 @@
+import { readFile } from 'fs/promises';
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import type { PreprocessSettings } from '../types';
+import type { ImageCodec } from './preprocess';
+import { fitWithin, preprocessImageBytes, readExifOrientation, readImageSize } from './preprocess';
+
+/**
+ * Node codec on sharp. It leaves EXIF orientation to the pipeline, like
+ * browsers that don't apply it when decoding.
+ */
+const sharpCodec: ImageCodec = {
+  async decode(bytes, _mimeType, maxDimension) {
+    const image = sharp(bytes);
+    const { width, height } = await image.metadata();
+    const size = fitWithin(width, height, maxDimension);
+    const { data, info } = await image
+      .resize(size.width, size.height)
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return {
+      data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength),
+      width: info.width,
+      height: info.height,
+      oriented: false,
+      sourceWidth: width,
+      sourceHeight: height,
+    };
+  },
+
+  async encode(pixels, mimeType, quality) {
+    const image = sharp(Buffer.from(pixels.data.buffer, pixels.data.byteOffset, pixels.data.byteLength), {
+      raw: { width: pixels.width, height: pixels.height, channels: 4 },
+    });
+    const options = { quality: Math.round(quality * 100) };
+    const bytes = mimeType === 'image/webp' ? await image.webp(options).toBuffer() : await image.jpeg(options).toBuffer();
+    return { bytes: new Uint8Array(bytes), mimeType };
+  },
+};
+
+const SETTINGS: PreprocessSettings = { maxDimension: 1024, format: 'jpeg', quality: 0.85, enhance: false };
+
+const SAMPLES = [
+  { file: 'pokemon-test-2.jpg', mimeType: 'image/jpeg' },
+  { file: 'pokemon-test-3.png', mimeType: 'image/png' },
+  { file: 'pokemon-test-4.jpeg', mimeType: 'image/jpeg' },
+  { file: 'pokemon-test.webp', mimeType: 'image/webp' },
+];
+
+const readSample = async (file: string) => new Uint8Array(await readFile(new URL(`../../${file}`, import.meta.url)));
+
+describe('preprocessImageBytes', () => {
+  it.each(SAMPLES)('shrinks and re-encodes $file, or keeps it if that would not pay off', async ({ file, mimeType }) => {
+    const bytes = await readSample(file);
+    const { width, height } = await sharp(bytes).metadata();
+    expect(readImageSize(bytes)).toEqual({ width, height });
+
+    for (const settings of [SETTINGS, { ...SETTINGS, maxDimension: 512, format: 'webp' as const, enhance: true }]) {
+      const result = await preprocessImageBytes(bytes, mimeType, settings, sharpCodec);
+
+      if (result.bytes === bytes) {
+        expect(result).toMatchObject({ mimeType, width, height, processedBytes: bytes.length });
+        continue;
+      }
+      expect(readImageSize(result.bytes)).toEqual({ width: result.width, height: result.height });
+      expect(result.mimeType).toBe(`image/${settings.format}`);
+      expect(Math.max(result.width, result.height)).toBeLessThanOrEqual(settings.maxDimension);
+      expect(result.width / result.height).toBeCloseTo(width / height, 1);
+      expect(result.processedBytes).toBe(result.bytes.length);
+      expect(result.processedBytes).toBeLessThan(result.originalBytes);
+    }
+  });
+
+  it('shrinks a large PNG', async () => {
+    const bytes = await readSample('pokemon-test-3.png');
+    const result = await preprocessImageBytes(bytes, 'image/png', { ...SETTINGS, maxDimension: 512 }, sharpCodec);
+
+    expect(result).toMatchObject({ mimeType: 'image/jpeg', width: 371, height: 512 });
+    expect(result.processedBytes).toBeLessThan(result.originalBytes / 5);
+  });
+
+  it('turns photos upright from their EXIF orientation', async () => {
+    const sample = await readSample('pokemon-test-2.jpg');
+    const rotated = new Uint8Array(await sharp(sample).withMetadata({ orientation: 6 }).jpeg().toBuffer());
+    expect(readExifOrientation(rotated)).toBe(6);
+
+    const settings = { ...SETTINGS, maxDimension: 0, quality: 0.5 };
+    const result = await preprocessImageBytes(rotated, 'image/jpeg', settings, sharpCodec);
+    const { width, height } = await sharp(sample).metadata();
+    expect(result.orientation).toBe(6);
+    expect({ width: result.width, height: result.height }).toEqual({ width: height, height: width });
+  });
+
+  it('reads no orientation from a cut-off EXIF segment', async () => {
+    const sample = await readSample('pokemon-test-2.jpg');
+    const rotated = new Uint8Array(await sharp(sample).withMetadata({ orientation: 6 }).jpeg().toBuffer());
+    // Cut the file inside the EXIF segment's TIFF header
+    const exif = rotated.findIndex((byte, i) => byte === 0xff && rotated[i + 1] === 0xe1);
+
+    expect(readExifOrientation(rotated.subarray(0, exif + 16))).toBe(1);
+  });
+
+  it('reports the upright size when it keeps a rotated original', async () => {
+    const sample = await readSample('pokemon-test-2.jpg');
+    const rotated = new Uint8Array(await sharp(sample).withMetadata({ orientation: 6 }).jpeg().toBuffer());
+    const growingCodec: ImageCodec = {
+      decode: sharpCodec.decode,
+      encode: async () => ({ bytes: new Uint8Array(rotated.length + 1), mimeType: 'image/jpeg' }),
+    };
+
+    const result = await preprocessImageBytes(rotated, 'image/jpeg', SETTINGS, growingCodec);
+    const { width, height } = await sharp(sample).metadata();
+    expect(result.bytes).toBe(rotated);
+    expect({ width: result.width, height: result.height }).toEqual({ width: height, height: width });
+  });
+
+  it('uploads the original when the result would be bigger', async () => {
+    const bytes = await readSample('pokemon-test.webp');
+    const growingCodec: ImageCodec = {
+      decode: sharpCodec.decode,
+      encode: async () => ({ bytes: new Uint8Array(bytes.length + 1), mimeType: 'image/png' }),
+    };
+
+    const result = await preprocessImageBytes(bytes, 'image/webp', SETTINGS, growingCodec);
+    expect(result.bytes).toBe(bytes);
+    expect(result.mimeType).toBe('image/webp');
+    expect(result.processedBytes).toBe(result.originalBytes);
+  });
+
+  it('asks the codec to scale while decoding', async () => {
+    const bytes = await readSample('pokemon-test-3.png');
+    const sizes: number[] = [];
+    const codec: ImageCodec = {
+      decode: (input, mimeType, maxDimension) => {
+        sizes.push(maxDimension);
+        return sharpCodec.decode(input, mimeType, maxDimension);
+      },
+      encode: sharpCodec.encode,
+    };
+
+    await preprocessImageBytes(bytes, 'image/png', { ...SETTINGS, maxDimension: 800 }, codec);
+    expect(sizes).toEqual([800]);
+  });
+});
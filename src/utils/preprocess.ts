@@ -0,0 +1,502 @@
+import type { PreprocessSettings } from '../types';
+
+/**
+ * Raw RGBA pixels, laid out like the browser's ImageData
+ */
+export interface PixelData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pixels from a codec. `oriented` is true if the decoder already applied the
+ * EXIF orientation; `sourceWidth` and `sourceHeight` are the size as stored.
+ */
+export interface DecodedImage extends PixelData {
+  oriented: boolean;
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+/**
+ * Decodes and encodes images for the pipeline. The browser codec uses a
+ * canvas; scripts running in Node can plug in their own.
+ */
+export interface ImageCodec {
+  /**
+   * Decodes the image, scaled down to fit `maxDimension` on the long edge
+   * (0 keeps the size). Scaling while decoding keeps full-size photos out
+   * of the pixel loops, which run on the main thread.
+   */
+  decode(bytes: Uint8Array, mimeType: string, maxDimension: number): Promise<DecodedImage>;
+  /** Resolves with the bytes and the mime type actually written */
+  encode(pixels: PixelData, mimeType: string, quality: number): Promise<{ bytes: Uint8Array; mimeType: string }>;
+}
+
+export interface PreprocessResult {
+  bytes: Uint8Array;
+  mimeType: string;
+  width: number;
+  height: number;
+  /** EXIF orientation of the original, 1 if it had none */
+  orientation: number;
+  originalBytes: number;
+  processedBytes: number;
+}
+
+const MIME_TYPES: Record<PreprocessSettings['format'], string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+/**
+ * Reads the EXIF orientation (1-8) from JPEG bytes; 1 if there is none
+ */
+export function readExifOrientation(bytes: Uint8Array): number {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return 1;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  try {
+    let offset = 2;
+
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+
+      // Start of scan: the metadata segments are over
+      if (marker === 0xda) {
+        break;
+      }
+
+      // APP1 segment starting with "Exif\0\0", followed by a TIFF header
+      const isExif = marker === 0xe1
+        && view.getUint32(offset + 4) === 0x45786966
+        && view.getUint16(offset + 8) === 0;
+      if (isExif) {
+        const tiff = offset + 10;
+        const littleEndian = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+        const entries = view.getUint16(ifd, littleEndian);
+
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (entry + 12 > bytes.length) break;
+          if (view.getUint16(entry, littleEndian) === 0x0112) {
+            const orientation = view.getUint16(entry + 8, littleEndian);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+
+      offset += 2 + length;
+    }
+  } catch {
+    // Truncated or malformed EXIF
+  }
+
+  return 1;
+}
+
+/**
+ * Reads the pixel size from a JPEG, PNG or WebP header without decoding
+ * the image; null for other formats or truncated files
+ */
+export function readImageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+  try {
+    // PNG: the IHDR chunk comes first
+    if (bytes[0] === 0x89 && ascii(1, 3) === 'PNG') {
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+      switch (ascii(12, 4)) {
+        case 'VP8 ':
+          return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+        case 'VP8L': {
+          const bits = view.getUint32(21, true);
+          return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        case 'VP8X':
+          return {
+            width: (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)) + 1,
+            height: (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) + 1,
+          };
+      }
+      return null;
+    }
+
+    // JPEG: find the start-of-frame segment
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+        if (isStartOfFrame) {
+          return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+      }
+    }
+  } catch {
+    // Truncated header
+  }
+
+  return null;
+}
+
+/**
+ * Turns stored pixels upright according to an EXIF orientation.
+ * Orientations 5-8 swap width and height.
+ */
+export function orientPixels(pixels: PixelData, orientation: number): PixelData {
+  if (orientation <= 1 || orientation > 8) {
+    return pixels;
+  }
+
+  const { width: w, height: h, data } = pixels;
+  const swap = orientation >= 5;
+  const width = swap ? h : w;
+  const height = swap ? w : h;
+  const out = new Uint8ClampedArray(data.length);
+
+  // For each upright pixel, where it is stored in the original
+  const source = (x: number, y: number): [number, number] => {
+    switch (orientation) {
+      case 2: return [w - 1 - x, y];
+      case 3: return [w - 1 - x, h - 1 - y];
+      case 4: return [x, h - 1 - y];
+      case 5: return [y, x];
+      case 6: return [y, h - 1 - x];
+      case 7: return [w - 1 - y, h - 1 - x];
+      default: return [w - 1 - y, x];
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [sx, sy] = source(x, y);
+      const from = (sy * w + sx) * 4;
+      const to = (y * width + x) * 4;
+      out[to] = data[from];
+      out[to + 1] = data[from + 1];
+      out[to + 2] = data[from + 2];
+      out[to + 3] = data[from + 3];
+    }
+  }
+
+  return { data: out, width, height };
+}
+
+/**
+ * Size that fits within `maxDimension` on the long edge; 0 keeps the size.
+ * Images are never scaled up.
+ */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const longEdge = Math.max(width, height);
+  if (maxDimension <= 0 || longEdge <= maxDimension) {
+    return { width, height };
+  }
+  const scale = maxDimension / longEdge;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Downscales by averaging every source pixel that falls into each target
+ * pixel, which keeps card text legible where nearest-neighbour would alias
+ */
+export function resizePixels(pixels: PixelData, width: number, height: number): PixelData {
+  if (width === pixels.width && height === pixels.height) {
+    return pixels;
+  }
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  const scaleX = pixels.width / width;
+  const scaleY = pixels.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.min(pixels.height, Math.floor((y + 1) * scaleY)));
+
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.min(pixels.width, Math.floor((x + 1) * scaleX)));
+
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * pixels.width + sx) * 4;
+          r += pixels.data[i];
+          g += pixels.data[i + 1];
+          b += pixels.data[i + 2];
+          a += pixels.data[i + 3];
+        }
+      }
+
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      out[o] = r / count;
+      out[o + 1] = g / count;
+      out[o + 2] = b / count;
+      out[o + 3] = a / count;
+    }
+  }
+
+  return { data: out, width, height };
+}
+
+/**
+ * Stretches brightness so the darkest and brightest `clip` fraction of
+ * pixels map to black and white, for washed-out photos under show lighting
+ */
+export function stretchContrast(pixels: PixelData, clip: number = 0.005): PixelData {
+  const { data } = pixels;
+  const histogram = new Array<number>(256).fill(0);
+  const total = data.length / 4;
+
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114)]++;
+  }
+
+  const limit = total * clip;
+  let low = 0;
+  for (let seen = 0; low < 255 && seen + histogram[low] <= limit; low++) seen += histogram[low];
+  let high = 255;
+  for (let seen = 0; high > 0 && seen + histogram[high] <= limit; high--) seen += histogram[high];
+
+  // Flat images have nothing to stretch
+  if (high - low < 16) {
+    return pixels;
+  }
+
+  const scale = 255 / (high - low);
+  const out = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    out[i] = (data[i] - low) * scale;
+    out[i + 1] = (data[i + 1] - low) * scale;
+    out[i + 2] = (data[i + 2] - low) * scale;
+    out[i + 3] = data[i + 3];
+  }
+
+  return { data: out, width: pixels.width, height: pixels.height };
+}
+
+/**
+ * 3x3 sharpening kernel; `amount` 0 leaves the image unchanged. Edge pixels are copied.
+ */
+export function sharpenPixels(pixels: PixelData, amount: number = 0.5): PixelData {
+  const { data, width, height } = pixels;
+  const out = new Uint8ClampedArray(data);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const neighbours = data[i - 4 + c] + data[i + 4 + c] + data[i - width * 4 + c] + data[i + width * 4 + c];
+        out[i + c] = data[i + c] * (1 + 4 * amount) - neighbours * amount;
+      }
+    }
+  }
+
+  return { data: out, width, height };
+}
+
+/**
+ * Runs the pixel steps: upright, resize (if the codec didn't already), then
+ * contrast and sharpening if enabled
+ */
+export function processPixels(pixels: PixelData, orientation: number, settings: PreprocessSettings): PixelData {
+  let result = orientPixels(pixels, orientation);
+
+  const size = fitWithin(result.width, result.height, settings.maxDimension);
+  result = resizePixels(result, size.width, size.height);
+
+  if (settings.enhance) {
+    result = sharpenPixels(stretchContrast(result));
+  }
+
+  return result;
+}
+
+/**
+ * Prepares an image for upload with the given codec. If the result would be
+ * bigger than the original, such as a small photo re-encoded or a PNG from
+ * a browser that can't write WebP, the original is uploaded instead.
+ */
+export async function preprocessImageBytes(
+  bytes: Uint8Array,
+  mimeType: string,
+  settings: PreprocessSettings,
+  codec: ImageCodec
+): Promise<PreprocessResult> {
+  const orientation = mimeType === 'image/jpeg' ? readExifOrientation(bytes) : 1;
+  const decoded = await codec.decode(bytes, mimeType, settings.maxDimension);
+  const pixels = processPixels(decoded, decoded.oriented ? 1 : orientation, settings);
+
+  const encoded = await codec.encode(pixels, MIME_TYPES[settings.format], settings.quality);
+
+  if (encoded.bytes.length >= bytes.length) {
+    // The original is sent as stored; report the size it shows upright
+    const swap = orientation >= 5;
+    return {
+      bytes,
+      mimeType,
+      width: swap ? decoded.sourceHeight : decoded.sourceWidth,
+      height: swap ? decoded.sourceWidth : decoded.sourceHeight,
+      orientation,
+      originalBytes: bytes.length,
+      processedBytes: bytes.length,
+    };
+  }
+
+  return {
+    bytes: encoded.bytes,
+    mimeType: encoded.mimeType,
+    width: pixels.width,
+    height: pixels.height,
+    orientation,
+    originalBytes: bytes.length,
+    processedBytes: encoded.bytes.length,
+  };
+}
+
+export function dataUrlToBytes(dataUrl: string): { bytes: Uint8Array; mimeType: string } {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match || !match[2]) {
+    throw new Error('Expected a base64 image data URL');
+  }
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { bytes, mimeType: match[1] || 'image/jpeg' };
+}
+
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  // Build the binary string in chunks; spreading megabytes at once overflows the stack
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/**
+ * Human-readable size, e.g. 412 KB or 3.2 MB
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * One-line summary of what preprocessing saved
+ */
+export function describeSavings(result: PreprocessResult): string {
+  if (result.processedBytes >= result.originalBytes) {
+    return `Uploaded ${formatBytes(result.processedBytes)} (${result.width}×${result.height})`;
+  }
+  const saved = Math.round((1 - result.processedBytes / result.originalBytes) * 100);
+  return `Uploaded ${formatBytes(result.processedBytes)} instead of ${formatBytes(result.originalBytes)} `
+    + `(${saved}% smaller, ${result.width}×${result.height})`;
+}
+
+/**
+ * Canvas-backed codec for the browser
+ */
+export const browserCodec: ImageCodec = {
+  async decode(bytes, mimeType, maxDimension) {
+    const blob = new Blob([bytes as Uint8Array<ArrayBuffer>], { type: mimeType });
+
+    let source: CanvasImageSource;
+    let width: number;
+    let height: number;
+    let oriented: boolean;
+
+    if (typeof createImageBitmap === 'function') {
+      const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+      source = bitmap;
+      width = bitmap.width;
+      height = bitmap.height;
+      oriented = true;
+    } else {
+      const url = URL.createObjectURL(blob);
+      try {
+        const image = new Image();
+        image.src = url;
+        await image.decode();
+        source = image;
+        width = image.naturalWidth;
+        height = image.naturalHeight;
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+      // Browsers that support this CSS value also apply EXIF when drawing images
+      oriented = typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+    }
+
+    // Let the browser's native scaler shrink the photo before reading pixels
+    const size = fitWithin(width, height, maxDimension);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not process the image');
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(source, 0, 0, size.width, size.height);
+    if (source instanceof ImageBitmap) {
+      source.close();
+    }
+
+    const { data } = context.getImageData(0, 0, size.width, size.height);
+    return { data, ...size, oriented, sourceWidth: width, sourceHeight: height };
+  },
+
+  async encode(pixels, mimeType, quality) {
+    const canvas = document.createElement('canvas');
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not process the image');
+    }
+    context.putImageData(new ImageData(pixels.data as Uint8ClampedArray<ArrayBuffer>, pixels.width, pixels.height), 0, 0);
+
+    const toBlob = (type: string) => new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+    let blob = await toBlob(mimeType);
+    // Browsers without a WebP encoder write PNG instead, which is far bigger than JPEG
+    if (blob && blob.type !== mimeType && mimeType !== MIME_TYPES.jpeg) {
+      blob = await toBlob(MIME_TYPES.jpeg);
+    }
+    if (!blob) {
+      throw new Error('Could not encode the image');
+    }
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), mimeType: blob.type || mimeType };
+  },
+};
+
+/**
+ * Prepares a photo's data URL for upload in the browser
+ */
+export async function preprocessImage(
+  dataUrl: string,
+  settings: PreprocessSettings
+): Promise<PreprocessResult & { dataUrl: string }> {
+  const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+  const result = await preprocessImageBytes(bytes, mimeType, settings, browserCodec);
+  return { ...result, dataUrl: result.bytes === bytes ? dataUrl : bytesToDataUrl(result.bytes, result.mimeType) };
+}
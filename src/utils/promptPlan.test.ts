@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { CardDetection } from '../types';
+import { parseCardEntry } from './cards';
+import { chunkCardList, estimateTokens, mergeDetections, planPrompts, shortlistCandidates } from './promptPlan';
+
+const list = (...names: string[]) => names.map(name => parseCardEntry(name));
+
+/** `count` entries named "Card 10", "Card 11", ..., three tokens each */
+const numberedList = (count: number) => list(...Array.from({ length: count }, (_, i) => `Card ${10 + i}`));
+
+const detection = (name: string, fields: Partial<CardDetection> = {}): CardDetection => ({
+  name,
+  set: null,
+  number: null,
+  box: null,
+  confidence: 0.9,
+  ...fields,
+});
+
+describe('chunkCardList', () => {
+  it('fills chunks up to the budget, in list order', () => {
+    const cards = numberedList(5);
+    expect(estimateTokens('- Card 10\n')).toBe(3);
+
+    const chunks = chunkCardList(cards, 6);
+    expect(chunks.map(chunk => chunk.map(card => card.name))).toEqual([
+      ['Card 10', 'Card 11'],
+      ['Card 12', 'Card 13'],
+      ['Card 14'],
+    ]);
+  });
+
+  it('gives a card over the budget a chunk of its own', () => {
+    const cards = list('Mew', 'Charizard ex 199/165 (SV3)', 'Eevee');
+    expect(chunkCardList(cards, 3).map(chunk => chunk.map(card => card.name))).toEqual([
+      ['Mew'],
+      ['Charizard ex'],
+      ['Eevee'],
+    ]);
+  });
+
+  it('returns no chunks for an empty list', () => {
+    expect(chunkCardList([], 10)).toEqual([]);
+  });
+});
+
+describe('planPrompts', () => {
+  it('sends a list that fits in one prompt', () => {
+    const cards = numberedList(4);
+    expect(planPrompts(cards, 12, 3)).toEqual({ strategy: 'single', chunks: [cards], listTokens: 12 });
+  });
+
+  it('chunks a list that takes a few prompts', () => {
+    const plan = planPrompts(numberedList(9), 6, 5);
+    expect(plan.strategy).toBe('chunked');
+    expect(plan.chunks.map(chunk => chunk.length)).toEqual([2, 2, 2, 2, 1]);
+    expect(plan.listTokens).toBe(27);
+  });
+
+  it('shortlists when the list would take too many prompts', () => {
+    expect(planPrompts(numberedList(12), 6, 5)).toEqual({ strategy: 'shortlist', chunks: [], listTokens: 36 });
+  });
+});
+
+describe('shortlistCandidates', () => {
+  it('keeps every variant and printing of a name read', () => {
+    const missing = list('Charizard ex 199/165', 'Charizard VMAX', 'Charizard 4/102', 'Blastoise', 'Pikachu');
+    const shortlist = shortlistCandidates([detection('Charizard', { number: '11/108' })], missing);
+
+    expect(shortlist.map(card => card.name)).toEqual(['Charizard ex', 'Charizard VMAX', 'Charizard']);
+  });
+
+  it('tolerates misreads and drops names that are too far off', () => {
+    const missing = list('Charizard', 'Blastoise', 'Venusaur');
+    expect(shortlistCandidates([detection('Charizrd GX')], missing).map(card => card.name)).toEqual(['Charizard']);
+    expect(shortlistCandidates([detection('Snorlax')], missing)).toEqual([]);
+  });
+
+  it('lists an entry once for several cards that resemble it', () => {
+    const missing = list('Pikachu', 'Raichu');
+    const shortlist = shortlistCandidates([detection('Pikachu'), detection('Pikachu V')], missing);
+    expect(shortlist.map(card => card.name)).toEqual(['Pikachu']);
+  });
+});
+
+describe('mergeDetections', () => {
+  const box = (x: number) => ({ x, y: 0.1, width: 0.2, height: 0.3 });
+
+  it('keeps the most confident answer for a card several requests reported', () => {
+    const merged = mergeDetections([
+      [detection('Charizrd', { box: box(0.1), confidence: 0.5 }), detection('Mew', { box: box(0.5) })],
+      [detection('Charizard', { box: box(0.11), confidence: 0.95 })],
+    ]);
+    expect(merged.map(card => card.name)).toEqual(['Charizard', 'Mew']);
+  });
+
+  it('matches cards without boxes by name and number', () => {
+    const merged = mergeDetections([
+      [detection('Pikachu', { number: '025/102', confidence: 0.7 })],
+      [detection('pikachu', { number: '25/102', confidence: 0.8 }), detection('Pikachu', { number: '58/102' })],
+    ]);
+    expect(merged.map(card => [card.name, card.number])).toEqual([['pikachu', '25/102'], ['Pikachu', '58/102']]);
+  });
+
+  it('never merges cards within one answer', () => {
+    const merged = mergeDetections([[detection('Eevee'), detection('Eevee')], [detection('Eevee')]]);
+    expect(merged).toHaveLength(2);
+  });
+});
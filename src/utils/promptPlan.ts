@@ -0,0 +1,193 @@
+import type { BoundingBox, CardDetection, CardEntry } from '../types';
+import { baseName, formatCardEntry, normalizeNumber, parseCardEntry } from './cards';
+import { cardKey, normalizeName, similarity } from './matching';
+
+/** Most tokens of missing list to put in a single prompt */
+export const LIST_TOKEN_BUDGET = 4000;
+
+/**
+ * Most tokens a reply may use, for every provider. Thinking models count
+ * their thinking against it too, so it leaves room well past a full page
+ * of detections.
+ */
+export const REPLY_TOKEN_BUDGET = 8192;
+
+/** Beyond this many chunks, a first "read every name" pass is cheaper */
+export const MAX_CHUNKS = 3;
+
+/** How close a read name must be to a list entry to make the shortlist */
+export const SHORTLIST_MIN_SCORE = 0.6;
+
+/** Shortlisted names per card read in the first pass */
+const SHORTLIST_NAMES_PER_DETECTION = 5;
+
+/** Boxes overlapping at least this much (intersection over union) are the same card */
+const SAME_CARD_OVERLAP = 0.5;
+
+/**
+ * How a missing-list scan is split into requests:
+ * - 'single': the whole list fits in one prompt
+ * - 'chunked': one request per chunk of the list, answers merged
+ * - 'shortlist': read every card name first, then ask about the list
+ *   entries that resemble them
+ */
+export interface PromptPlan {
+  strategy: 'single' | 'chunked' | 'shortlist';
+  chunks: CardEntry[][];
+  listTokens: number;
+}
+
+/**
+ * Rough token count: about four characters per token for English text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Tokens a card takes up as a line of the missing list prompt
+ */
+function cardTokens(card: CardEntry): number {
+  return estimateTokens(`- ${formatCardEntry(card)}\n`);
+}
+
+/**
+ * Splits the list into chunks of at most `budget` tokens, keeping list order.
+ * A single card over the budget still gets a chunk of its own.
+ */
+export function chunkCardList(list: CardEntry[], budget: number = LIST_TOKEN_BUDGET): CardEntry[][] {
+  const chunks: CardEntry[][] = [];
+  let current: CardEntry[] = [];
+  let tokens = 0;
+
+  for (const card of list) {
+    const size = cardTokens(card);
+    if (current.length > 0 && tokens + size > budget) {
+      chunks.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(card);
+    tokens += size;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Picks the cheapest strategy that keeps every prompt within the budget
+ */
+export function planPrompts(
+  missingList: CardEntry[],
+  budget: number = LIST_TOKEN_BUDGET,
+  maxChunks: number = MAX_CHUNKS
+): PromptPlan {
+  const listTokens = missingList.reduce((sum, card) => sum + cardTokens(card), 0);
+
+  if (listTokens <= budget) {
+    return { strategy: 'single', chunks: [missingList], listTokens };
+  }
+
+  const chunks = chunkCardList(missingList, budget);
+  if (chunks.length <= maxChunks) {
+    return { strategy: 'chunked', chunks, listTokens };
+  }
+
+  return { strategy: 'shortlist', chunks: [], listTokens };
+}
+
+/**
+ * The missing list entries that resemble any card read in a first pass.
+ * Loose on purpose: only base names are compared, so every variant and
+ * printing of a name read makes the shortlist, and the second pass decides
+ * which ones are really there.
+ */
+export function shortlistCandidates(
+  detections: CardDetection[],
+  missingList: CardEntry[],
+  minScore: number = SHORTLIST_MIN_SCORE
+): CardEntry[] {
+  const entriesByName = new Map<string, CardEntry[]>();
+  for (const card of missingList) {
+    const name = normalizeName(baseName(card));
+    if (name) {
+      entriesByName.set(name, [...entriesByName.get(name) ?? [], card]);
+    }
+  }
+
+  const shortlist = new Map<string, CardEntry>();
+
+  for (const detection of detections) {
+    const readName = normalizeName(baseName(parseCardEntry(detection.name)));
+    if (!readName) continue;
+
+    const names = [...entriesByName.keys()]
+      .map(name => ({ name, score: similarity(readName, name) }))
+      .filter(candidate => candidate.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, SHORTLIST_NAMES_PER_DETECTION);
+
+    for (const { name } of names) {
+      for (const card of entriesByName.get(name)!) {
+        shortlist.set(cardKey(card), card);
+      }
+    }
+  }
+
+  return [...shortlist.values()];
+}
+
+function boxOverlap(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) {
+    return 0;
+  }
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+/**
+ * Two detections are the same physical card if their boxes overlap, or,
+ * without boxes, if they have the same name and number
+ */
+function isSameCard(a: CardDetection, b: CardDetection): boolean {
+  if (a.box && b.box) {
+    return boxOverlap(a.box, b.box) >= SAME_CARD_OVERLAP;
+  }
+  return normalizeName(a.name) === normalizeName(b.name)
+    && normalizeNumber(a.number) === normalizeNumber(b.number);
+}
+
+/**
+ * Merges the answers of several requests about the same photo. A card
+ * reported by more than one request is kept once, with the most confident
+ * answer; cards within one answer are never merged with each other.
+ */
+export function mergeDetections(responses: CardDetection[][]): CardDetection[] {
+  const merged: CardDetection[] = [];
+
+  for (const response of responses) {
+    const earlier = merged.length;
+    const matched = new Set<number>();
+
+    for (const detection of response) {
+      const index = merged.findIndex((existing, i) =>
+        i < earlier && !matched.has(i) && isSameCard(existing, detection)
+      );
+      if (index === -1) {
+        merged.push(detection);
+        continue;
+      }
+      matched.add(index);
+      if (detection.confidence > merged[index].confidence) {
+        merged[index] = detection;
+      }
+    }
+  }
+
+  return merged;
+}
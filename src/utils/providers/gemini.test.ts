@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import recording from '../../fixtures/recordings/gemini.json';
+import { RequestError } from '../errors';
+import { ModelOutputError } from '../modelOutput';
+import type { HttpRecording, Transport } from '../transport';
+import { createReplayTransport, setTransport } from '../transport';
+import type { TokenUsage, VisionRequest } from '../vision';
+import { createGeminiProvider } from './gemini';
+
+/** The photo and prompt the recording was made with */
+const REQUEST: VisionRequest = {
+  imageBase64: 'iVBORw0KGgo=',
+  mimeType: 'image/jpeg',
+  prompt: 'List every Pokemon card in this photo.',
+};
+
+/** Models the recording has a reply for, each answering a different way */
+const identify = (model: string, request: Partial<VisionRequest> = {}) =>
+  createGeminiProvider({ apiKey: 'test-key', model }).identify({ ...REQUEST, ...request });
+
+let sent: string[];
+
+beforeEach(() => {
+  sent = [];
+  const replay = createReplayTransport((recording as HttpRecording).exchanges);
+  const transport: Transport = (url, init) => {
+    sent.push(url);
+    return replay(url, init);
+  };
+  setTransport(transport);
+});
+
+afterEach(() => {
+  setTransport(null);
+});
+
+describe('Gemini provider', () => {
+  it('joins a streamed reply, skipping thoughts and passing on the text so far', async () => {
+    const partials: string[] = [];
+    let usage: TokenUsage | undefined;
+    const text = await identify('gemini-3-pro-preview', {
+      onPartial: partial => partials.push(partial),
+      onUsage: reported => {
+        usage = reported;
+      },
+    });
+
+    expect(text).toBe('[{"name":"Pikachu","set":"Base Set","number":"58/102","box_2d":[120,80,540,360],"confidence":0.93}]');
+    expect(partials).toEqual(['[{"name":"Pikachu","set":"Base Set",', text]);
+    // Thinking tokens are billed as output
+    expect(usage).toEqual({ inputTokens: 1290, outputTokens: 351 });
+  });
+
+  it('asks again without JSON mode when the model rejects it, and only once', async () => {
+    const provider = createGeminiProvider({ apiKey: 'test-key', model: 'gemini-1.0-pro-vision' });
+
+    const first = await provider.identify(REQUEST);
+    const second = await provider.identify(REQUEST);
+
+    expect(first).toContain('"name":"Eevee"');
+    expect(second).toBe(first);
+    expect(sent).toHaveLength(3);
+  });
+
+  it('keeps the text of a reply that ran out of tokens', async () => {
+    const failure = identify('out-of-room');
+
+    await expect(failure).rejects.toBeInstanceOf(ModelOutputError);
+    await expect(failure).rejects.toMatchObject({
+      problem: 'truncated',
+      partialText: '[{"name":"Pikachu","box_2d":[1,2,3,4],"confidence":0.9},{"name":"Ee',
+    });
+  });
+
+  it.each([
+    ['safety', 'Gemini stopped answering for this photo (SAFETY)'],
+    ['refused', 'Gemini refused to look at this photo (PROHIBITED_CONTENT)'],
+  ])('reports the %s reply as blocked', async (model, message) => {
+    const failure = identify(model);
+
+    await expect(failure).rejects.toBeInstanceOf(ModelOutputError);
+    await expect(failure).rejects.toMatchObject({ problem: 'blocked', message });
+  });
+
+  it.each([
+    ['bad-key', 'invalid-key', 400, null],
+    ['busy', 'rate-limit', 429, 7000],
+    ['overloaded', 'server', 503, null],
+    ['gemini-0-retired', 'request', 404, null],
+  ])('turns the %s error reply into a %s RequestError', async (model, kind, status, retryAfterMs) => {
+    const failure = identify(model);
+
+    await expect(failure).rejects.toBeInstanceOf(RequestError);
+    await expect(failure).rejects.toMatchObject({ kind, status, retryAfterMs });
+  });
+
+  it('keeps the message from the error body', async () => {
+    await expect(identify('bad-key')).rejects.toThrow('API key not valid. Please pass a valid API key.');
+  });
+});
@@ -0,0 +1,244 @@
+import type { TokenUsage, VisionProvider, VisionRequest } from '../vision';
+import { validateDetections } from '../vision';
+import { ModelOutputError } from '../modelOutput';
+import { fetchOrThrow, isAbortError, RequestError } from '../errors';
+import { REPLY_TOKEN_BUDGET } from '../promptPlan';
+
+export const GEMINI_DEFAULT_ENDPOINT = 'https://generativelanguage.googleapis.com/v1beta';
+export const GEMINI_DEFAULT_MODEL = 'gemini-3-pro-preview';
+
+/**
+ * Response schema for JSON mode, matching the detection fields in the prompts
+ */
+const DETECTION_RESPONSE_SCHEMA = {
+  type: 'ARRAY',
+  items: {
+    type: 'OBJECT',
+    properties: {
+      name: { type: 'STRING' },
+      set: { type: 'STRING', nullable: true },
+      number: { type: 'STRING', nullable: true },
+      box_2d: { type: 'ARRAY', items: { type: 'INTEGER' } },
+      confidence: { type: 'NUMBER' },
+    },
+    required: ['name', 'box_2d', 'confidence'],
+    propertyOrdering: ['name', 'set', 'number', 'box_2d', 'confidence'],
+  },
+};
+
+/** Finish reasons for answers the model was not allowed to give */
+const BLOCKED_FINISH_REASONS = new Set([
+  'SAFETY', 'RECITATION', 'LANGUAGE', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY',
+]);
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+}
+
+/** One event of a streamed answer */
+interface GeminiChunk {
+  promptFeedback?: { blockReason?: string };
+  /** Running totals; the last event has the final count */
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+  };
+  candidates?: Array<{
+    content?: { parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+}
+
+/**
+ * Reads a server-sent event stream, passing each event's JSON data to
+ * `onEvent` as it arrives
+ */
+async function readEventStream(response: Response, onEvent: (chunk: GeminiChunk) => void): Promise<void> {
+  if (!response.body) {
+    throw new ModelOutputError('Gemini returned no answer', 'malformed');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  const handleEvent = (event: string) => {
+    const data = event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) return;
+
+    let chunk: GeminiChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      throw new ModelOutputError('Gemini sent an answer that could not be read', 'malformed');
+    }
+    onEvent(chunk);
+  };
+
+  let buffer = '';
+  try {
+    for (;;) {
+      let result: ReadableStreamReadResult<string>;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        throw new RequestError('Lost the connection to Gemini', 'network');
+      }
+      if (result.done) break;
+
+      // Events end with a blank line; keep an unfinished one for the next read
+      buffer += result.value;
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? '';
+      events.forEach(handleEvent);
+    }
+    handleEvent(buffer);
+  } finally {
+    reader.cancel().catch(() => {
+      // Already closed
+    });
+  }
+}
+
+/**
+ * An error reply that rejects the JSON mode fields, from models without it
+ */
+function isJsonModeUnsupported(error: unknown): boolean {
+  return error instanceof RequestError
+    && error.status === 400
+    && /response_?(mime_?type|schema)/i.test(error.message);
+}
+
+export interface GeminiConfig {
+  apiKey: string;
+  endpoint?: string;
+  model?: string;
+}
+
+/**
+ * Google Gemini provider using the streamGenerateContent REST endpoint, so
+ * the reply can be shown while it arrives
+ */
+export function createGeminiProvider(config: GeminiConfig): VisionProvider {
+  const endpoint = (config.endpoint || GEMINI_DEFAULT_ENDPOINT).replace(/\/+$/, '');
+  const model = config.model || GEMINI_DEFAULT_MODEL;
+  // Cleared after a model rejects JSON mode, so it is only tried once
+  let useJsonMode = true;
+
+  return {
+    name: 'Gemini',
+    requiresApiKey: true,
+
+    async identify(request: VisionRequest): Promise<string> {
+      // The key goes in a header, not the URL, so it stays out of logs and history
+      const url = `${endpoint}/models/${model}:streamGenerateContent?alt=sse`;
+
+      const makeRequestBody = (jsonMode: boolean) => ({
+        contents: [
+          {
+            parts: [
+              {
+                inline_data: {
+                  mime_type: request.mimeType,
+                  data: request.imageBase64,
+                },
+              },
+              {
+                text: request.prompt,
+              },
+            ],
+          },
+        ],
+        generationConfig: {
+          temperature: 0.1, // Low temperature for more precise matching
+          topP: 0.8,
+          maxOutputTokens: REPLY_TOKEN_BUDGET,
+          // JSON mode: the reply is constrained to an array of detections
+          ...(jsonMode && { responseMimeType: 'application/json', responseSchema: DETECTION_RESPONSE_SCHEMA }),
+        },
+      });
+
+      const send = (jsonMode: boolean) => fetchOrThrow(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': config.apiKey,
+        },
+        body: JSON.stringify(makeRequestBody(jsonMode)),
+        signal: request.signal,
+      }, 'Gemini');
+
+      let response: Response;
+      try {
+        response = await send(useJsonMode);
+      } catch (error) {
+        // Older models don't support JSON mode; ask again with the prompt alone
+        if (!useJsonMode || !isJsonModeUnsupported(error)) {
+          throw error;
+        }
+        useJsonMode = false;
+        response = await send(false);
+      }
+
+      // The answer streams in as server-sent events, a few tokens at a time
+      let text = '';
+      let finishReason: string | undefined;
+      let answered = false;
+      let usage: TokenUsage | undefined;
+
+      await readEventStream(response, chunk => {
+        if (chunk.usageMetadata) {
+          const { promptTokenCount = 0, candidatesTokenCount = 0, thoughtsTokenCount = 0 } = chunk.usageMetadata;
+          usage = { inputTokens: promptTokenCount, outputTokens: candidatesTokenCount + thoughtsTokenCount };
+        }
+
+        // The whole request was refused before the model answered
+        const blockReason = chunk.promptFeedback?.blockReason;
+        if (blockReason) {
+          throw new ModelOutputError(`Gemini refused to look at this photo (${blockReason})`, 'blocked');
+        }
+
+        const candidate = chunk.candidates?.[0];
+        if (!candidate) return;
+        answered = true;
+        finishReason = candidate.finishReason ?? finishReason;
+
+        // Skip any thinking the model shares
+        const parts = candidate.content?.parts ?? [];
+        const delta = parts.filter(part => !part.thought).map(part => part.text ?? '').join('');
+        if (delta) {
+          text += delta;
+          request.onPartial?.(text);
+        }
+      });
+
+      if (usage) {
+        request.onUsage?.(usage);
+      }
+
+      if (finishReason === 'MAX_TOKENS') {
+        throw new ModelOutputError(
+          'Gemini ran out of room before finishing its answer. Try a photo with fewer cards.',
+          'truncated',
+          text
+        );
+      }
+      if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+        throw new ModelOutputError(`Gemini stopped answering for this photo (${finishReason})`, 'blocked');
+      }
+      if (!answered || (!text && finishReason !== 'STOP')) {
+        throw new ModelOutputError(`Gemini returned no answer${finishReason ? ` (${finishReason})` : ''}`, 'malformed');
+      }
+
+      return text;
+    },
+
+    validate: validateDetections,
+  };
+}
@@ -0,0 +1,39 @@
+import type { AppSettings } from '../../types';
+import type { VisionProvider } from '../vision';
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { createMockProvider } from './mock';
+import { createProxyProvider } from '../proxy';
+
+export type VisionProviderSettings = Pick<
+  AppSettings,
+  'visionProvider' | 'visionApiKey' | 'visionEndpoint' | 'visionModel' | 'proxyUrl'
+>;
+
+/**
+ * Creates the vision provider selected in settings. With a proxy URL set,
+ * scans go to the proxy server, which uses its own provider and key.
+ */
+export function createVisionProvider(settings: VisionProviderSettings): VisionProvider {
+  if (settings.proxyUrl) {
+    return createProxyProvider(settings.proxyUrl);
+  }
+
+  switch (settings.visionProvider) {
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: settings.visionApiKey,
+        endpoint: settings.visionEndpoint,
+        model: settings.visionModel,
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider({
+        apiKey: settings.visionApiKey,
+        endpoint: settings.visionEndpoint,
+        model: settings.visionModel,
+      });
+  }
+}
@@ -0,0 +1,49 @@
+import type { VisionProvider, VisionRequest } from '../vision';
+import { validateDetections } from '../vision';
+import defaultFixtures from '../../fixtures/mock-responses.json';
+
+export interface MockFixture {
+  /** Sample image the response belongs to, for reference only */
+  file?: string;
+  /** FNV-1a hash of the image's base64 payload */
+  hash: string;
+  /** Raw model reply returned for this image */
+  response: string;
+}
+
+export interface MockFixtureSet {
+  /** Reply used when no fixture matches the image */
+  default: string;
+  images: MockFixture[];
+}
+
+/**
+ * 32-bit FNV-1a hash, cheap enough to run over a full base64 image
+ */
+export function hashImageData(data: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Offline provider that replies with canned responses, so the whole scan flow
+ * can be exercised without network access or an API key
+ */
+export function createMockProvider(fixtures: MockFixtureSet = defaultFixtures): VisionProvider {
+  return {
+    name: 'Mock',
+    requiresApiKey: false,
+
+    async identify(request: VisionRequest): Promise<string> {
+      const hash = hashImageData(request.imageBase64);
+      const fixture = fixtures.images.find(f => f.hash === hash);
+      return fixture ? fixture.response : fixtures.default;
+    },
+
+    validate: validateDetections,
+  };
+}
@@ -0,0 +1,122 @@
+import type Tesseract from 'tesseract.js';
+import type { CardDetection, CardEntry } from '../../types';
+import type { VisionProvider, VisionRequest } from '../vision';
+import { validateDetections } from '../vision';
+import { rankCandidates } from '../matching';
+import { dataUrlToBytes, readImageSize } from '../preprocess';
+
+const OCR_LANGUAGE = 'eng';
+
+/** On-device OCR is less reliable than a vision model; its confidences are scaled down by this */
+export const OCR_CONFIDENCE_SCALE = 0.6;
+
+/** Text lines resembling a list entry at least this much are read again on their own */
+const NAME_LINE_MIN_SCORE = 0.5;
+
+/** Padding around a name line when it is read again, as a fraction of its height */
+const NAME_LINE_PADDING = 0.3;
+
+let workerPromise: Promise<Tesseract.Worker> | null = null;
+
+/**
+ * Loads the OCR engine on first use. Its code is only downloaded then, and
+ * the service worker caches it for offline use afterwards.
+ */
+export function loadOcrWorker(): Promise<Tesseract.Worker> {
+  if (!workerPromise) {
+    workerPromise = import('tesseract.js').then(({ default: tesseract }) => tesseract.createWorker(OCR_LANGUAGE));
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Keeps the part of a line that can be a card name: "Zeraora V HP 190" -> "Zeraora V"
+ */
+function cleanNameLine(text: string): string {
+  return text
+    .replace(/\bHP\s*\d+.*$/i, '')
+    .replace(/[^\p{L}\p{N}' .-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function bestScore(text: string, candidates: CardEntry[]): number {
+  return rankCandidates(text, candidates)[0]?.score ?? 0;
+}
+
+/**
+ * Offline fallback that reads card names with an in-browser OCR engine
+ * instead of a vision model. It ignores the prompt: every text line on the
+ * photo is compared with the candidate cards, and lines that resemble one
+ * are cropped and read again as a single line for a cleaner name.
+ */
+export function createOcrProvider(candidates: CardEntry[]): VisionProvider {
+  return {
+    name: 'Offline OCR',
+    requiresApiKey: false,
+    promptable: false,
+
+    async identify(request: VisionRequest): Promise<string> {
+      const image = `data:${request.mimeType};base64,${request.imageBase64}`;
+      const size = readImageSize(dataUrlToBytes(image).bytes);
+      if (!size) {
+        throw new Error('Offline scanning supports JPEG, PNG and WebP photos only');
+      }
+
+      const worker = await loadOcrWorker();
+      const { default: tesseract } = await import('tesseract.js');
+
+      // First pass: find every text line on the photo
+      await worker.setParameters({ tessedit_pageseg_mode: tesseract.PSM.SPARSE_TEXT });
+      const { data } = await worker.recognize(image, {}, { blocks: true });
+      const lines = (data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+
+      const nameLines = lines
+        .map(line => ({ line, text: cleanNameLine(line.text) }))
+        .filter(({ text }) => /\p{L}{3}/u.test(text) && bestScore(text, candidates) >= NAME_LINE_MIN_SCORE);
+
+      // Second pass: read each likely name line on its own
+      await worker.setParameters({ tessedit_pageseg_mode: tesseract.PSM.SINGLE_LINE });
+      const detections = [];
+      for (const { line, text } of nameLines) {
+        const { x0, y0, x1, y1 } = line.bbox;
+        const padding = Math.round((y1 - y0) * NAME_LINE_PADDING);
+        const left = Math.max(0, x0 - padding);
+        const top = Math.max(0, y0 - padding);
+        const rectangle = {
+          left,
+          top,
+          width: Math.min(size.width, x1 + padding) - left,
+          height: Math.min(size.height, y1 + padding) - top,
+        };
+
+        const { data: crop } = await worker.recognize(image, { rectangle });
+        const cropText = cleanNameLine(crop.text);
+        const useCrop = bestScore(cropText, candidates) >= bestScore(text, candidates);
+
+        detections.push({
+          name: useCrop ? cropText : text,
+          set: null,
+          number: null,
+          // Same format the vision models reply with: [ymin, xmin, ymax, xmax] on 0-1000
+          box_2d: [
+            Math.round((y0 / size.height) * 1000),
+            Math.round((x0 / size.width) * 1000),
+            Math.round((y1 / size.height) * 1000),
+            Math.round((x1 / size.width) * 1000),
+          ],
+          confidence: ((useCrop ? crop.confidence : line.confidence) / 100) * OCR_CONFIDENCE_SCALE,
+        });
+      }
+
+      return JSON.stringify(detections);
+    },
+
+    validate(rawResponse: string): CardDetection[] {
+      return validateDetections(rawResponse).map(detection => ({ ...detection, offline: true }));
+    },
+  };
+}
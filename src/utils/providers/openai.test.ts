@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import recording from '../../fixtures/recordings/openai.json';
+import { ModelOutputError } from '../modelOutput';
+import { createReplayTransport, setTransport } from '../transport';
+import type { HttpRecording } from '../transport';
+import type { TokenUsage, VisionRequest } from '../vision';
+import { createOpenAIProvider } from './openai';
+
+/** The photo and prompt the recording was made with */
+const REQUEST: VisionRequest = {
+  imageBase64: 'iVBORw0KGgo=',
+  mimeType: 'image/jpeg',
+  prompt: 'List every Pokemon card in this photo.',
+};
+
+const identify = (model: string, request: Partial<VisionRequest> = {}) =>
+  createOpenAIProvider({ apiKey: 'test-key', model }).identify({ ...REQUEST, ...request });
+
+beforeEach(() => {
+  setTransport(createReplayTransport((recording as HttpRecording).exchanges));
+});
+
+afterEach(() => {
+  setTransport(null);
+});
+
+describe('OpenAI-compatible provider', () => {
+  it('returns the reply and reports token usage', async () => {
+    let usage: TokenUsage | undefined;
+    const text = await identify('gpt-4o', {
+      onUsage: reported => {
+        usage = reported;
+      },
+    });
+
+    expect(JSON.parse(text)).toEqual([
+      { name: 'Pikachu', set: 'Base Set', number: '58/102', box_2d: [120, 80, 540, 360], confidence: 0.93 },
+    ]);
+    expect(usage).toEqual({ inputTokens: 1105, outputTokens: 64 });
+  });
+
+  it('keeps the text of a reply cut off by the length limit', async () => {
+    const failure = identify('out-of-room');
+
+    await expect(failure).rejects.toBeInstanceOf(ModelOutputError);
+    await expect(failure).rejects.toMatchObject({
+      problem: 'truncated',
+      partialText: '[{"name":"Pikachu","box_2d":[1,2,3,4],"confidence":0.9},{"name":"Ee',
+    });
+  });
+
+  it('reports a content_filter finish as blocked', async () => {
+    const failure = identify('filtered');
+
+    await expect(failure).rejects.toBeInstanceOf(ModelOutputError);
+    await expect(failure).rejects.toMatchObject({ problem: 'blocked' });
+  });
+});
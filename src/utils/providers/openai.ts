@@ -0,0 +1,100 @@
+import type { VisionProvider, VisionRequest } from '../vision';
+import { validateDetections } from '../vision';
+import { ModelOutputError } from '../modelOutput';
+import { fetchOrThrow } from '../errors';
+import { REPLY_TOKEN_BUDGET } from '../promptPlan';
+
+export const OPENAI_DEFAULT_ENDPOINT = 'https://api.openai.com/v1';
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o';
+
+export interface OpenAIConfig {
+  apiKey: string;
+  endpoint?: string;
+  model?: string;
+}
+
+/**
+ * Provider for any OpenAI-compatible chat-completions API
+ * (OpenAI, OpenRouter, LM Studio, Ollama, vLLM, ...)
+ */
+export function createOpenAIProvider(config: OpenAIConfig): VisionProvider {
+  const endpoint = (config.endpoint || OPENAI_DEFAULT_ENDPOINT).replace(/\/+$/, '');
+  const model = config.model || OPENAI_DEFAULT_MODEL;
+
+  return {
+    name: 'OpenAI-compatible',
+    // Local servers usually run without a key
+    requiresApiKey: false,
+
+    async identify(request: VisionRequest): Promise<string> {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      };
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      const requestBody = {
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'image_url',
+                image_url: {
+                  url: `data:${request.mimeType};base64,${request.imageBase64}`,
+                },
+              },
+              {
+                type: 'text',
+                text: request.prompt,
+              },
+            ],
+          },
+        ],
+        temperature: 0.1,
+        top_p: 0.8,
+        max_tokens: REPLY_TOKEN_BUDGET,
+      };
+
+      const response = await fetchOrThrow(`${endpoint}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(requestBody),
+        signal: request.signal,
+      }, 'the chat completions API');
+
+      const data = await response.json();
+      if (data.usage) {
+        request.onUsage?.({
+          inputTokens: data.usage.prompt_tokens ?? 0,
+          outputTokens: data.usage.completion_tokens ?? 0,
+        });
+      }
+
+      const choice = data.choices?.[0];
+      const content = choice?.message?.content;
+
+      // Some servers return content as an array of parts
+      const text: string = Array.isArray(content)
+        ? content.map((part: { text?: string }) => part.text ?? '').join('')
+        : content ?? '';
+
+      if (choice?.finish_reason === 'length') {
+        throw new ModelOutputError(
+          'The model ran out of room before finishing its answer. Try a photo with fewer cards.',
+          'truncated',
+          text
+        );
+      }
+      if (choice?.finish_reason === 'content_filter') {
+        throw new ModelOutputError('The model refused to answer for this photo (content filter)', 'blocked');
+      }
+
+      return text;
+    },
+
+    validate: validateDetections,
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { CardDetection } from '../../types';
+import { parseCardEntry } from '../cards';
+import { ModelOutputError } from '../modelOutput';
+import type { VisionProvider } from '../vision';
+import { identifyCardsInImage, validateDetections } from '../vision';
+import type { RecordedReply, Recording } from './replay';
+import { createRecordingProvider, createReplayProvider } from './replay';
+
+const IMAGE = 'data:image/jpeg;base64,iVBORw0KGgo=';
+const MISSING = [parseCardEntry('Pikachu 58/102')];
+
+const PIKACHU: CardDetection = { name: 'Pikachu', set: null, number: '58/102', box: null, confidence: 0.9 };
+
+/** Records one scan with the provider and returns the recording */
+async function record(provider: VisionProvider) {
+  const replies: RecordedReply[] = [];
+  const recorder = createRecordingProvider(provider, reply => replies.push(reply));
+  const output = await identifyCardsInImage(IMAGE, recorder, 'missing', MISSING).catch(error => error);
+  const recording: Recording = {
+    provider: recorder.name,
+    promptable: recorder.promptable !== false,
+    wholeScans: !!recorder.scan,
+    replies,
+  };
+  return { output, recording };
+}
+
+describe('recording and replaying replies', () => {
+  it('replays a prompted provider reply by reply, with its usage', async () => {
+    const { output, recording } = await record({
+      name: 'Model',
+      requiresApiKey: false,
+      async identify({ onUsage }) {
+        onUsage?.({ inputTokens: 1000, outputTokens: 40 });
+        return JSON.stringify([{ name: 'Pikachu', number: '58/102', confidence: 0.9 }]);
+      },
+      validate: validateDetections,
+    });
+    expect(recording.replies).toHaveLength(1);
+    expect(recording.replies[0]).toMatchObject({ usage: { inputTokens: 1000, outputTokens: 40 } });
+
+    const replayed: RecordedReply[] = [];
+    const replay = createReplayProvider(recording, reply => replayed.push(reply));
+    expect(await identifyCardsInImage(IMAGE, replay, 'missing', MISSING)).toEqual(output);
+    expect(replayed).toEqual(recording.replies);
+  });
+
+  it('records whole scans from a provider that runs them itself', async () => {
+    const { output, recording } = await record({
+      name: 'Scan proxy',
+      requiresApiKey: false,
+      async identify() {
+        throw new Error('The scan proxy runs whole scans, not single prompts');
+      },
+      validate: validateDetections,
+      async scan() {
+        return { detections: [PIKACHU], rawResponse: '[{"name":"Pikachu"}]', truncated: true };
+      },
+    });
+    expect(recording.wholeScans).toBe(true);
+    expect(recording.replies).toEqual([expect.objectContaining({
+      response: '[{"name":"Pikachu"}]',
+      scan: { detections: [PIKACHU], truncated: true },
+    })]);
+
+    const replay = createReplayProvider(recording);
+    expect(await identifyCardsInImage(IMAGE, replay, 'missing', MISSING)).toEqual(output);
+    await expect(identifyCardsInImage(IMAGE, replay, 'inventory', MISSING)).rejects.toMatchObject({ kind: 'request' });
+  });
+
+  it('replays a refused reply as the same error', async () => {
+    const { output, recording } = await record({
+      name: 'Model',
+      requiresApiKey: false,
+      async identify() {
+        throw new ModelOutputError('The model refused to answer for this photo', 'blocked');
+      },
+      validate: validateDetections,
+    });
+    expect(output).toBeInstanceOf(ModelOutputError);
+
+    const replay = createReplayProvider(recording);
+    await expect(identifyCardsInImage(IMAGE, replay, 'missing', MISSING)).rejects.toMatchObject({
+      problem: 'blocked',
+      message: 'The model refused to answer for this photo',
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import type { CardEntry, ScanMode } from '../../types';
+import type { ScanOptions, TokenUsage, VisionProvider, VisionRequest, VisionScanOutput } from '../vision';
+import { validateDetections } from '../vision';
+import { ModelOutputError } from '../modelOutput';
+import type { ModelOutputProblem } from '../modelOutput';
+import { RequestError } from '../errors';
+import { hashImageData } from './mock';
+
+/**
+ * One model reply with what it cost. Replies the model cut off or refused
+ * keep their error, so replaying them fails the same way.
+ */
+export interface RecordedReply {
+  /** Hashes of the image and the prompt the reply answers */
+  key: string;
+  response: string;
+  latencyMs: number;
+  usage: TokenUsage | null;
+  error?: { message: string; problem: ModelOutputProblem };
+  /** What a whole scan found, for providers that run scans themselves */
+  scan?: Omit<VisionScanOutput, 'rawResponse'>;
+}
+
+/**
+ * The replies from one run, to be replayed without the provider
+ */
+export interface Recording {
+  provider: string;
+  promptable: boolean;
+  /** The replies are whole scans, keyed by scanKey, from a provider like the scan proxy */
+  wholeScans?: boolean;
+  replies: RecordedReply[];
+}
+
+/**
+ * Identifies a request by its image and prompt, so a replay answers the
+ * same question with the same reply
+ */
+export function replyKey(request: VisionRequest): string {
+  return `${hashImageData(request.imageBase64)}-${hashImageData(request.prompt)}`;
+}
+
+/**
+ * Identifies a whole scan by its image, mode and missing list, for
+ * providers that run scans themselves rather than answer single prompts
+ */
+export function scanKey(imageBase64: string, mode: ScanMode, missingList: CardEntry[]): string {
+  return `${hashImageData(imageBase64)}-${hashImageData(`${mode}\n${JSON.stringify(missingList)}`)}`;
+}
+
+/**
+ * Wraps a provider to time each reply and note its token usage. `onReply`
+ * is called for every answer, including ones the model cut off or refused;
+ * failed requests aren't recorded. A provider with its own `scan` has each
+ * whole scan recorded as one reply.
+ */
+export function createRecordingProvider(
+  provider: VisionProvider,
+  onReply: (reply: RecordedReply) => void
+): VisionProvider {
+  // Times one answer from the moment it is asked for
+  const startReply = (key: string) => {
+    const started = performance.now();
+    let usage: TokenUsage | null = null;
+    const record = (reply: Pick<RecordedReply, 'response' | 'error' | 'scan'>) => onReply({
+      key,
+      latencyMs: Math.round(performance.now() - started),
+      usage,
+      ...reply,
+    });
+
+    return {
+      setUsage: (reported: TokenUsage) => {
+        usage = reported;
+      },
+      record,
+      recordError: (error: unknown) => {
+        if (error instanceof ModelOutputError) {
+          record({ response: error.partialText, error: { message: error.message, problem: error.problem } });
+        }
+      },
+    };
+  };
+
+  const { scan } = provider;
+
+  return {
+    name: provider.name,
+    requiresApiKey: provider.requiresApiKey,
+    promptable: provider.promptable,
+    validate: provider.validate,
+
+    async identify(request: VisionRequest): Promise<string> {
+      const reply = startReply(replyKey(request));
+      try {
+        const response = await provider.identify({
+          ...request,
+          onUsage: reported => {
+            reply.setUsage(reported);
+            request.onUsage?.(reported);
+          },
+        });
+        reply.record({ response });
+        return response;
+      } catch (error) {
+        reply.recordError(error);
+        throw error;
+      }
+    },
+
+    ...(scan && {
+      async scan(imageBase64: string, mode: ScanMode, missingList: CardEntry[], options: ScanOptions): Promise<VisionScanOutput> {
+        const reply = startReply(scanKey(imageBase64, mode, missingList));
+        try {
+          const { rawResponse, ...output } = await scan(imageBase64, mode, missingList, options);
+          reply.record({ response: rawResponse, scan: output });
+          return { rawResponse, ...output };
+        } catch (error) {
+          reply.recordError(error);
+          throw error;
+        }
+      },
+    }),
+  };
+}
+
+/**
+ * Offline provider that answers from a recording, reporting each reply's
+ * recorded latency and usage through `onReply`. A request that wasn't
+ * recorded fails. Recordings of whole scans are replayed as whole scans.
+ */
+export function createReplayProvider(
+  recording: Recording,
+  onReply: (reply: RecordedReply) => void = () => {}
+): VisionProvider {
+  const findReply = (key: string): RecordedReply => {
+    const reply = recording.replies.find(candidate => candidate.key === key);
+    if (!reply) {
+      throw new RequestError('No recorded reply for this photo and prompt; record the run again', 'request');
+    }
+    onReply(reply);
+    return reply;
+  };
+
+  const throwRecordedError = (reply: RecordedReply) => {
+    if (reply.error) {
+      throw new ModelOutputError(reply.error.message, reply.error.problem, reply.response);
+    }
+  };
+
+  return {
+    name: `${recording.provider} (replay)`,
+    requiresApiKey: false,
+    promptable: recording.promptable,
+
+    async identify(request: VisionRequest): Promise<string> {
+      const reply = findReply(replyKey(request));
+      if (reply.usage) {
+        request.onUsage?.(reply.usage);
+      }
+      throwRecordedError(reply);
+      request.onPartial?.(reply.response);
+      return reply.response;
+    },
+
+    validate: validateDetections,
+
+    ...(recording.wholeScans && {
+      async scan(imageBase64: string, mode: ScanMode, missingList: CardEntry[]): Promise<VisionScanOutput> {
+        const reply = findReply(scanKey(imageBase64, mode, missingList));
+        throwRecordedError(reply);
+        return { detections: [], truncated: false, ...reply.scan, rawResponse: reply.response };
+      },
+    }),
+  };
+}
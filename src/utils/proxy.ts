@@ -0,0 +1,112 @@
+import type { CardEntry, ColumnMapping, ScanMode } from '../types';
+import type { ScanOptions, VisionProvider, VisionScanOutput } from './vision';
+import { validateDetections } from './vision';
+import { fetchOrThrow, withRetry, RequestError } from './errors';
+import type { RetryOptions } from './errors';
+import { extractSheetId } from './sheets';
+
+/**
+ * Body of POST /api/scan: the arguments of identifyCardsInImage. The reply
+ * is its VisionScanOutput; the app classifies the cards against its lists.
+ */
+export interface ProxyScanRequest {
+  image: string;
+  mode: ScanMode;
+  missingList: CardEntry[];
+}
+
+/**
+ * Body of POST /api/sheet: the arguments of fetchSheetData. The reply is
+ * `{ cards }`.
+ */
+export interface ProxySheetRequest {
+  sheetUrl: string;
+  sheetTab: string;
+  columnMapping: ColumnMapping;
+}
+
+/**
+ * Status the proxy answers with when the vision or sheet service behind it
+ * failed, with how it failed as `error.kind` in the body. The proxy has
+ * already retried those failures, so the app doesn't.
+ */
+export const PASSED_ON_STATUS = 424;
+
+const SERVICE_NAME = 'the scan proxy';
+
+/**
+ * Sends one request to the proxy. Failures it passes on are returned rather
+ * than thrown, so that only failures of the proxy itself are retried.
+ */
+async function sendToProxy(url: string, init: RequestInit): Promise<Response | RequestError> {
+  try {
+    return await fetchOrThrow(url, init, SERVICE_NAME);
+  } catch (error) {
+    if (error instanceof RequestError && error.status === PASSED_ON_STATUS) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sends a request to the proxy, retrying after transient failures to reach
+ * it. Both endpoints only read, so retrying is safe.
+ */
+async function post<T>(proxyUrl: string, path: string, body: unknown, options: RetryOptions): Promise<T> {
+  const url = `${proxyUrl.replace(/\/+$/, '')}${path}`;
+  const result = await withRetry(() => sendToProxy(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  }), options);
+  if (result instanceof RequestError) {
+    throw result;
+  }
+  return result.json();
+}
+
+/**
+ * Provider that sends whole scans to a scan proxy server, which holds the
+ * API key and talks to the vision model. The reply arrives in one piece.
+ */
+export function createProxyProvider(proxyUrl: string): VisionProvider {
+  return {
+    name: 'Scan proxy',
+    requiresApiKey: false,
+
+    async identify(): Promise<string> {
+      throw new Error('The scan proxy runs whole scans, not single prompts');
+    },
+
+    validate: validateDetections,
+
+    async scan(image: string, mode: ScanMode, missingList: CardEntry[], options: ScanOptions): Promise<VisionScanOutput> {
+      const request: ProxyScanRequest = { image, mode, missingList };
+      const output = await post<VisionScanOutput>(proxyUrl, '/api/scan', request, options);
+      return { detections: output.detections ?? [], rawResponse: output.rawResponse ?? '', truncated: !!output.truncated };
+    },
+  };
+}
+
+/**
+ * fetchSheetData, run by the scan proxy
+ */
+export async function fetchSheetDataViaProxy(
+  proxyUrl: string,
+  sheetUrl: string,
+  sheetTab: string,
+  mapping: ColumnMapping,
+  signal?: AbortSignal
+): Promise<CardEntry[]> {
+  if (!extractSheetId(sheetUrl)) {
+    throw new RequestError('Invalid Google Sheets URL. Please check the URL format.', 'invalid-url');
+  }
+
+  const request: ProxySheetRequest = { sheetUrl, sheetTab, columnMapping: mapping };
+  const { cards } = await post<{ cards: CardEntry[] }>(proxyUrl, '/api/sheet', request, { signal });
+  return cards;
+}
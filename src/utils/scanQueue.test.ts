@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { runQueue } from './scanQueue';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('runQueue', () => {
+  it('keeps at most `concurrency` items in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const done: number[] = [];
+
+    await runQueue([1, 2, 3, 4, 5], async item => {
+      peak = Math.max(peak, ++inFlight);
+      await tick();
+      inFlight--;
+      return item;
+    }, { concurrency: 2, onSuccess: (_, result) => done.push(result) });
+
+    expect(peak).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('tries each item once and reports its failure', async () => {
+    let calls = 0;
+    const failures: string[] = [];
+    const done: string[] = [];
+
+    await runQueue(['a', 'b'], async item => {
+      calls++;
+      if (item === 'a') throw new Error('nope');
+      return item;
+    }, {
+      concurrency: 1,
+      onSuccess: (_, result) => done.push(result),
+      onFailure: (item, error) => failures.push(`${item}: ${error.message}`),
+    });
+
+    expect(calls).toBe(2);
+    expect(failures).toEqual(['a: nope']);
+    expect(done).toEqual(['b']);
+  });
+
+  it('stops starting items once aborted, without reporting', async () => {
+    const controller = new AbortController();
+    const started: string[] = [];
+    const failures: string[] = [];
+
+    await runQueue(['a', 'b', 'c'], async item => {
+      started.push(item);
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    }, {
+      concurrency: 1,
+      signal: controller.signal,
+      onFailure: item => failures.push(item),
+    });
+
+    expect(started).toEqual(['a']);
+    expect(failures).toEqual([]);
+  });
+});
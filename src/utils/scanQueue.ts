@@ -0,0 +1,117 @@
+import type { ScanResult } from '../types';
+import { normalizeNumber } from './cards';
+import { cardKey, normalizeName } from './matching';
+
+/** Photos scanned at the same time; higher values risk provider rate limits */
+export const BATCH_CONCURRENCY = 2;
+
+/**
+ * One photo in a batch scan
+ */
+export interface ScanQueueItem {
+  id: string;
+  fileName: string;
+  image: string;
+  status: 'pending' | 'scanning' | 'done' | 'error';
+  attempts: number;
+  results: ScanResult[];
+  error: string | null;
+}
+
+/**
+ * A card seen in one or more photos of a batch. `result` is the sighting
+ * with the highest confidence, `count` how often it was seen in total.
+ */
+export interface AggregatedScanResult {
+  result: ScanResult;
+  count: number;
+  sources: string[];
+}
+
+export interface QueueOptions<T, R> {
+  concurrency: number;
+  /** Once aborted, no more items start and those in flight are dropped */
+  signal?: AbortSignal;
+  onStart?: (item: T) => void;
+  onSuccess?: (item: T, result: R) => void;
+  onFailure?: (item: T, error: Error) => void;
+}
+
+/**
+ * Runs the worker over every item with at most `concurrency` in flight.
+ * Each item is tried once: retrying is up to the worker, which knows which
+ * failures are worth it. The queue itself never rejects, failures are
+ * reported through `onFailure`. Items cut short by `signal` aren't reported.
+ */
+export async function runQueue<T, R>(
+  items: T[],
+  worker: (item: T) => Promise<R>,
+  options: QueueOptions<T, R>
+): Promise<void> {
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length && !options.signal?.aborted) {
+      const item = items[next++];
+
+      options.onStart?.(item);
+      try {
+        // Outside the optional call, which would skip the worker without onSuccess
+        const result = await worker(item);
+        options.onSuccess?.(item, result);
+      } catch (error) {
+        if (options.signal?.aborted) {
+          return;
+        }
+        options.onFailure?.(item, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(options.concurrency, items.length) }, runNext);
+  await Promise.all(workers);
+}
+
+/**
+ * Identity of a result across photos: the matched list entry if there is
+ * one, otherwise the name and number the model read
+ */
+function resultKey(result: ScanResult): string {
+  return result.card
+    ? cardKey(result.card)
+    : `?${normalizeName(result.detectedName)}|${normalizeNumber(result.number)}`;
+}
+
+const STATUS_ORDER: Record<ScanResult['status'], number> = { need: 0, have: 1, unknown: 2 };
+
+/**
+ * Combines the results of several photos into one report, merging sightings
+ * of the same card. Cards on the missing list come first.
+ */
+export function aggregateScanResults(
+  batches: Array<{ source: string; results: ScanResult[] }>
+): AggregatedScanResult[] {
+  const byKey = new Map<string, AggregatedScanResult>();
+
+  for (const { source, results } of batches) {
+    for (const result of results) {
+      const key = resultKey(result);
+      const existing = byKey.get(key);
+
+      if (!existing) {
+        byKey.set(key, { result, count: 1, sources: [source] });
+        continue;
+      }
+
+      existing.count++;
+      if (!existing.sources.includes(source)) {
+        existing.sources.push(source);
+      }
+      if (result.confidence > existing.result.confidence) {
+        existing.result = result;
+      }
+    }
+  }
+
+  return [...byKey.values()].sort((a, b) => STATUS_ORDER[a.result.status] - STATUS_ORDER[b.result.status]);
+}
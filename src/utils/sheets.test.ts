@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import recording from '../fixtures/recordings/sheets.json';
+import { RequestError } from './errors';
+import { fetchSheetHeaders } from './sheets';
+import { createReplayTransport, setTransport } from './transport';
+import type { HttpRecording } from './transport';
+
+const sheetUrl = (id: string) => `https://docs.google.com/spreadsheets/d/${id}/edit`;
+
+beforeEach(() => {
+  setTransport(createReplayTransport((recording as HttpRecording).exchanges));
+});
+
+afterEach(() => {
+  setTransport(null);
+});
+
+describe('fetchSheetHeaders', () => {
+  it('reads the header row of a public sheet', async () => {
+    expect(await fetchSheetHeaders(sheetUrl('public-sheet'))).toEqual([
+      { column: 'A', label: 'Name' },
+      { column: 'B', label: 'Set' },
+      { column: 'C', label: 'Number' },
+      { column: 'D', label: 'Qty' },
+    ]);
+  });
+
+  it.each([
+    ['sign-in-sheet', 200],
+    ['unauthorized-sheet', 401],
+    ['forbidden-sheet', 403],
+    ['deleted-sheet', 404],
+  ])('reports %s as a private sheet', async (id, status) => {
+    const failure = fetchSheetHeaders(sheetUrl(id));
+
+    await expect(failure).rejects.toBeInstanceOf(RequestError);
+    await expect(failure).rejects.toMatchObject({
+      kind: 'private-sheet',
+      status,
+      message: 'Sheet not found. Make sure the sheet is public.',
+    });
+  });
+
+  it('rejects a link that is not a Google Sheet', async () => {
+    await expect(fetchSheetHeaders('https://example.com/list.csv')).rejects.toMatchObject({ kind: 'invalid-url' });
+  });
+});
@@ -1,3 +1,13 @@
+import type { CardEntry, ColumnMapping } from '../types';
+import { parseCardEntry } from './cards';
+import { parseCsv, CsvParseError } from './csv';
+import { fetchOrThrow, withRetry, RequestError } from './errors';
+
+export interface SheetHeader {
+  column: string;
+  label: string;
+}
+
 /**
  * Parses a Google Sheets URL and extracts the sheet ID
  */
@@ -9,23 +19,44 @@ export function extractSheetId(url: string): string | null {
 }
 
 /**
- * Fetches data from a public Google Sheet
- * The sheet must be published to the web or shared as "Anyone with the link can view"
+ * Converts a zero-based column index to its sheet letter (0 -> A, 27 -> AB)
  */
-export async function fetchSheetData(
-  sheetUrl: string,
-  sheetTab: string = '',
-  column: string = 'A'
-): Promise<string[]> {
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Converts a sheet column letter to its zero-based index (A -> 0, AB -> 27)
+ */
+export function columnIndex(letter: string): number {
+  let index = 0;
+  for (const char of letter.trim().toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+const PRIVATE_SHEET_MESSAGE = 'Sheet not found. Make sure the sheet is public.';
+
+/**
+ * Downloads one tab of a public sheet as CSV rows, header row first.
+ * Network and server failures are retried; `signal` cancels the download.
+ */
+async function fetchSheetRows(sheetUrl: string, sheetTab: string, signal?: AbortSignal): Promise<string[][]> {
   const sheetId = extractSheetId(sheetUrl);
 
   if (!sheetId) {
-    throw new Error('Invalid Google Sheets URL. Please check the URL format.');
+    throw new RequestError('Invalid Google Sheets URL. Please check the URL format.', 'invalid-url');
   }
 
   // Use the Google Sheets CSV export URL
-  // Format: https://docs.google.com/spreadsheets/d/{id}/gviz/tq?tqx=out:csv&sheet={sheetName}&range={column}:{column}
-  let csvUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?tqx=out:csv&range=${column}:${column}`;
+  // Format: https://docs.google.com/spreadsheets/d/{id}/gviz/tq?tqx=out:csv&headers=1&sheet={sheetName}
+  // headers=1 stops gviz from guessing and merging several rows into the header
+  let csvUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?tqx=out:csv&headers=1`;
 
   // Add sheet/tab name if specified
   if (sheetTab && sheetTab.trim()) {
@@ -33,40 +64,23 @@ export async function fetchSheetData(
   }
 
   try {
-    const response = await fetch(csvUrl);
+    const response = await withRetry(() => fetchOrThrow(csvUrl, { signal }, 'Google Sheets'), { signal });
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error('Sheet not found. Make sure the sheet is public.');
-      }
-      throw new Error(`Failed to fetch sheet: ${response.statusText}`);
+    // Private sheets answer with Google's sign-in page instead of CSV
+    if (response.headers.get('Content-Type')?.includes('text/html')) {
+      throw new RequestError(PRIVATE_SHEET_MESSAGE, 'private-sheet', response.status);
     }
 
     const csvText = await response.text();
 
-    // Parse CSV - handle quoted values and newlines
-    const lines = csvText.split('\n');
-    const cards: string[] = [];
-
-    // Skip first row (header)
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      // Remove quotes and trim
-      let value = line.trim();
-      if (value.startsWith('"') && value.endsWith('"')) {
-        value = value.slice(1, -1);
-      }
-      // Replace escaped quotes
-      value = value.replace(/""/g, '"');
-
-      // Skip empty lines
-      if (value) {
-        cards.push(value);
-      }
-    }
-
-    return cards;
+    return parseCsv(csvText).map(row => row.map(value => value.trim()));
   } catch (error) {
+    if (error instanceof CsvParseError) {
+      throw new Error(`The sheet export could not be read: ${error.message}`);
+    }
+    if (error instanceof RequestError && (error.status === 401 || error.status === 403 || error.status === 404)) {
+      throw new RequestError(PRIVATE_SHEET_MESSAGE, 'private-sheet', error.status);
+    }
     if (error instanceof Error) {
       throw error;
     }
@@ -75,96 +89,84 @@ export async function fetchSheetData(
 }
 
 /**
- * Normalizes a Pokemon name for comparison
+ * Fetches the header row of a public sheet tab, for mapping columns to card fields
  */
-export function normalizeName(name: string): string {
-  return name
-    .toLowerCase()
-    .trim()
-    // Remove common suffixes and variations
-    .replace(/\s*(ex|gx|v|vmax|vstar|v-union|break|lv\.?\s*x|delta|shining|radiant|galarian|alolan|hisuian|paldean)\s*/gi, '')
-    // Remove special characters
-    .replace(/[^a-z0-9]/g, '')
-    // Handle common OCR mistakes
-    .replace(/0/g, 'o')
-    .replace(/1/g, 'l')
-    .replace(/5/g, 's');
+export async function fetchSheetHeaders(
+  sheetUrl: string,
+  sheetTab: string = '',
+  signal?: AbortSignal
+): Promise<SheetHeader[]> {
+  const [headerRow = []] = await fetchSheetRows(sheetUrl, sheetTab, signal);
+
+  return headerRow.map((label, index) => ({ column: columnLetter(index), label }));
 }
 
 /**
- * Checks if a detected name matches any card in the missing list
+ * Guesses which column holds which card field from the header labels.
+ * Fields whose header isn't recognized are left unmapped.
  */
-export function findMatchingCard(
-  detectedName: string,
-  missingList: string[]
-): { match: string | null; confidence: number } {
-  const normalizedDetected = normalizeName(detectedName);
-
-  // Direct match
-  for (const card of missingList) {
-    if (normalizeName(card) === normalizedDetected) {
-      return { match: card, confidence: 1.0 };
-    }
-  }
-
-  // Partial match (detected name contains or is contained in card name)
-  for (const card of missingList) {
-    const normalizedCard = normalizeName(card);
-    if (normalizedCard.includes(normalizedDetected) || normalizedDetected.includes(normalizedCard)) {
-      const similarity = Math.min(normalizedDetected.length, normalizedCard.length) /
-                        Math.max(normalizedDetected.length, normalizedCard.length);
-      if (similarity > 0.7) {
-        return { match: card, confidence: similarity };
-      }
-    }
-  }
-
-  // Fuzzy match using Levenshtein distance
-  let bestMatch: string | null = null;
-  let bestScore = 0;
-
-  for (const card of missingList) {
-    const normalizedCard = normalizeName(card);
-    const distance = levenshteinDistance(normalizedDetected, normalizedCard);
-    const maxLen = Math.max(normalizedDetected.length, normalizedCard.length);
-    const similarity = 1 - (distance / maxLen);
-
-    if (similarity > bestScore && similarity > 0.75) {
-      bestScore = similarity;
-      bestMatch = card;
+export function guessColumnMapping(headers: SheetHeader[]): Partial<ColumnMapping> {
+  const patterns: Array<[keyof ColumnMapping, RegExp]> = [
+    ['name', /^(card\s*)?name$|^pok[eé]mon$|^card$/i],
+    ['setCode', /^set(\s*(code|name))?$|^expansion$/i],
+    ['number', /^(card\s*|collector\s*)?(number|no\.?|#)$/i],
+    ['variant', /^variant$/i],
+    ['rarity', /^rarity$/i],
+    ['quantity', /^(qty|quantity|count|amount)$/i],
+    ['notes', /^notes?$|^comments?$/i],
+  ];
+
+  const mapping: Partial<ColumnMapping> = {};
+  for (const [field, pattern] of patterns) {
+    const header = headers.find(h => pattern.test(h.label.trim()));
+    if (header) {
+      mapping[field] = header.column;
     }
   }
-
-  return { match: bestMatch, confidence: bestScore };
+  return mapping;
 }
 
 /**
- * Calculate Levenshtein distance between two strings
+ * Turns one sheet row into a card entry using the column mapping,
+ * or null if the name cell is empty
  */
-function levenshteinDistance(a: string, b: string): number {
-  const matrix: number[][] = [];
+export function rowToCardEntry(row: string[], mapping: ColumnMapping): CardEntry | null {
+  const cell = (column: string) => (column ? row[columnIndex(column)] ?? '' : '');
 
-  for (let i = 0; i <= b.length; i++) {
-    matrix[i] = [i];
+  const name = cell(mapping.name);
+  if (!name) {
+    return null;
   }
 
-  for (let j = 0; j <= a.length; j++) {
-    matrix[0][j] = j;
-  }
+  const quantity = parseInt(cell(mapping.quantity), 10);
 
-  for (let i = 1; i <= b.length; i++) {
-    for (let j = 1; j <= a.length; j++) {
-      if (b.charAt(i - 1) === a.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j] + 1
-        );
-      }
-    }
-  }
+  return parseCardEntry(name, {
+    setCode: cell(mapping.setCode),
+    number: cell(mapping.number),
+    variant: cell(mapping.variant),
+    rarity: cell(mapping.rarity),
+    quantity: Number.isNaN(quantity) ? null : quantity,
+    notes: cell(mapping.notes),
+  });
+}
 
-  return matrix[b.length][a.length];
+/**
+ * Fetches data from a public Google Sheet
+ * The sheet must be published to the web or shared as "Anyone with the link can view".
+ * Each row is mapped onto a card entry; the name cell is parsed too, so
+ * "Charizard ex 199/165" keeps its number even without a number column.
+ */
+export async function fetchSheetData(
+  sheetUrl: string,
+  sheetTab: string,
+  mapping: ColumnMapping,
+  signal?: AbortSignal
+): Promise<CardEntry[]> {
+  const rows = await fetchSheetRows(sheetUrl, sheetTab, signal);
+
+  // Skip first row (header)
+  return rows
+    .slice(1)
+    .map(row => rowToCardEntry(row, mapping))
+    .filter((card): card is CardEntry => card !== null);
 }
@@ -0,0 +1,223 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { ColumnMapping, WriteBackSettings } from '../types';
+import { parseCardEntry } from './cards';
+import { applyWriteBack, createSheetsClient, previewWriteBack } from './sheetsApi';
+
+const SPREADSHEET_ID = 'abc123';
+const SHEET_URL = `https://docs.google.com/spreadsheets/d/${SPREADSHEET_ID}/edit`;
+
+const MAPPING: ColumnMapping = {
+  name: 'A',
+  setCode: '',
+  number: 'B',
+  variant: '',
+  rarity: '',
+  quantity: 'C',
+  notes: '',
+};
+
+interface StubTab {
+  sheetId: number;
+  title: string;
+  values: string[][];
+}
+
+/** The request bodies the client sends, merged */
+interface StubBody {
+  valueInputOption?: string;
+  data?: Array<{ range: string; values: string[][] }>;
+  values?: string[][];
+  requests?: Array<{ deleteDimension: { range: { sheetId: number; startIndex: number } } }>;
+}
+
+interface StubRequest {
+  method: string;
+  path: string;
+  authorization: string | undefined;
+  body: StubBody | null;
+}
+
+/**
+ * In-memory stand-in for the parts of the Sheets REST API the client uses
+ */
+function createSheetsStub() {
+  let tabs: StubTab[] = [];
+  const requests: StubRequest[] = [];
+
+  const findTab = (range: string) => {
+    const match = decodeURIComponent(range).match(/^'((?:[^']|'')*)'(?:!([A-Z]+)(\d+))?$/);
+    const tab = match && tabs.find(t => t.title === match[1].replace(/''/g, "'"));
+    if (!match || !tab) throw new Error(`Unknown range ${range}`);
+    return { tab, column: match[2], row: Number(match[3]) };
+  };
+
+  const handle = (method: string, path: string, body: StubBody): unknown => {
+    const base = `/spreadsheets/${SPREADSHEET_ID}`;
+    if (method === 'GET' && path.startsWith(`${base}?`)) {
+      return { sheets: tabs.map(({ sheetId, title }) => ({ properties: { sheetId, title } })) };
+    }
+    if (method === 'GET' && path.startsWith(`${base}/values/`)) {
+      return { values: findTab(path.slice(`${base}/values/`.length)).tab.values };
+    }
+    if (method === 'POST' && path === `${base}/values:batchUpdate`) {
+      for (const { range, values } of body.data ?? []) {
+        const { tab, column, row } = findTab(range);
+        const cells = tab.values[row - 1];
+        const index = column.charCodeAt(0) - 65;
+        while (cells.length <= index) cells.push('');
+        cells[index] = values[0][0];
+      }
+      return {};
+    }
+    if (method === 'POST' && path.startsWith(`${base}/values/`) && path.includes(':append')) {
+      findTab(path.slice(`${base}/values/`.length).split(':append')[0]).tab.values.push(...(body.values ?? []));
+      return {};
+    }
+    if (method === 'POST' && path === `${base}:batchUpdate`) {
+      for (const { deleteDimension } of body.requests ?? []) {
+        const tab = tabs.find(t => t.sheetId === deleteDimension.range.sheetId)!;
+        tab.values.splice(deleteDimension.range.startIndex, 1);
+      }
+      return {};
+    }
+    throw new Error(`Unexpected ${method} ${path}`);
+  };
+
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      const entry: StubRequest = {
+        method: request.method ?? 'GET',
+        path: request.url ?? '/',
+        authorization: request.headers.authorization,
+        body: text ? JSON.parse(text) : null,
+      };
+      requests.push(entry);
+      try {
+        const reply = handle(entry.method, entry.path, entry.body ?? {});
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(reply));
+      } catch (error) {
+        response.writeHead(400, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ error: { message: (error as Error).message } }));
+      }
+    });
+  });
+
+  return {
+    server,
+    requests,
+    get tabs() {
+      return tabs;
+    },
+    reset(next: StubTab[]) {
+      tabs = next;
+      requests.length = 0;
+    },
+    writes: () => requests.filter(request => request.method === 'POST'),
+  };
+}
+
+const stub = createSheetsStub();
+let baseUrl = '';
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => stub.server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => stub.server.close(() => resolve())));
+
+beforeEach(() => {
+  stub.reset([
+    {
+      sheetId: 0,
+      title: 'Missing',
+      values: [
+        ['Name', 'Number', 'Qty', 'Added'],
+        ['Pikachu', '25/102', '2', '1/12'],
+        ['Charizard', '4/102', '1', '=TODAY()'],
+        ['Blastoise', '2/102', '1'],
+      ],
+    },
+    { sheetId: 7, title: "Ash's Have", values: [['Name', 'Number', 'Qty', 'Added']] },
+  ]);
+});
+
+const cards = [parseCardEntry('Charizard 4/102')];
+
+async function writeBack(writeBackSettings: WriteBackSettings) {
+  const client = createSheetsClient('test-token', baseUrl);
+  const plan = await previewWriteBack(client, SHEET_URL, 'Missing', cards, MAPPING, writeBackSettings, "Ash's Have");
+  return { client, plan };
+}
+
+describe('Sheets write-back', () => {
+  it('previews without writing', async () => {
+    const { plan } = await writeBack({ mode: 'mark', column: 'D', markValue: '✓' });
+
+    expect(plan.changes).toMatchObject([{ kind: 'update', tab: 'Missing', row: 3, column: 3 }]);
+    expect(plan.changes[0].after).toEqual(['Charizard', '4/102', '1', '✓']);
+    expect(stub.writes()).toEqual([]);
+    expect(stub.requests.every(request => request.authorization === 'Bearer test-token')).toBe(true);
+  });
+
+  it('writes only the target cell', async () => {
+    const { client, plan } = await writeBack({ mode: 'mark', column: 'D', markValue: '✓' });
+    await applyWriteBack(client, SHEET_URL, plan);
+
+    expect(stub.writes().map(request => request.body)).toEqual([
+      { valueInputOption: 'USER_ENTERED', data: [{ range: "'Missing'!D3", values: [['✓']] }] },
+    ]);
+    expect(stub.tabs[0].values[3 - 1]).toEqual(['Charizard', '4/102', '1', '✓']);
+    expect(stub.tabs[0].values[2 - 1]).toEqual(['Pikachu', '25/102', '2', '1/12']);
+  });
+
+  it('decrements the quantity', async () => {
+    stub.tabs[0].values[2][2] = '3';
+    const { client, plan } = await writeBack({ mode: 'quantity', column: '', markValue: '' });
+    await applyWriteBack(client, SHEET_URL, plan);
+
+    expect(stub.tabs[0].values[2]).toEqual(['Charizard', '4/102', '2', '=TODAY()']);
+  });
+
+  it('moves the row to the have tab', async () => {
+    const { client, plan } = await writeBack({ mode: 'move', column: '', markValue: '' });
+    await applyWriteBack(client, SHEET_URL, plan);
+
+    expect(stub.tabs[0].values.map(row => row[0])).toEqual(['Name', 'Pikachu', 'Blastoise']);
+    expect(stub.tabs[1].values[1]).toEqual(['Charizard', '4/102', '1', '=TODAY()']);
+  });
+
+  it('appends the moved row as it was read, without reinterpreting values', async () => {
+    stub.tabs[0].values[2] = ['Charizard', '004/102', '1', '1/12'];
+    const { client, plan } = await writeBack({ mode: 'move', column: '', markValue: '' });
+    await applyWriteBack(client, SHEET_URL, plan);
+
+    const append = stub.writes().find(request => request.path.includes(':append'));
+    expect(new URL(append!.path, baseUrl).searchParams.get('valueInputOption')).toBe('RAW');
+    expect(append!.body).toEqual({ values: [['Charizard', '004/102', '1', '1/12']] });
+  });
+
+  it('writes nothing if the rows moved since the preview', async () => {
+    const { client, plan } = await writeBack({ mode: 'move', column: '', markValue: '' });
+    stub.tabs[0].values.splice(1, 0, ['Mew', '151/165', '1']);
+
+    await expect(applyWriteBack(client, SHEET_URL, plan)).rejects.toThrow(/changed since the preview/);
+    expect(stub.writes()).toEqual([]);
+    expect(stub.tabs[0].values).toHaveLength(5);
+  });
+
+  it('lists matched cards that have no row', async () => {
+    const client = createSheetsClient('test-token', baseUrl);
+    const plan = await previewWriteBack(
+      client, SHEET_URL, 'Missing', [parseCardEntry('Mewtwo')], MAPPING, { mode: 'mark', column: 'D', markValue: 'x' }, ''
+    );
+    expect(plan.changes).toEqual([]);
+    expect(plan.notFound.map(card => card.name)).toEqual(['Mewtwo']);
+  });
+});
@@ -0,0 +1,369 @@
+import type { CardEntry, ColumnMapping, WriteBackSettings } from '../types';
+import { cardKey } from './matching';
+import { columnIndex, columnLetter, extractSheetId, rowToCardEntry } from './sheets';
+import { fetchOrThrow, withRetry, RequestError } from './errors';
+
+export const SHEETS_API_BASE_URL = 'https://sheets.googleapis.com/v4';
+const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+
+/**
+ * One cell or row change to the sheet. Plans are built first and shown as a
+ * diff, and only applied once the user confirms.
+ */
+export interface SheetChange {
+  kind: 'update' | 'append' | 'delete';
+  tab: string;
+  /** 1-based row in the tab; for appends, the source row being copied */
+  row: number;
+  /** 0-based column an update writes; the rest of the row is left alone */
+  column?: number;
+  before: string[];
+  after: string[];
+  card: CardEntry;
+}
+
+export interface WriteBackPlan {
+  changes: SheetChange[];
+  /** Matched cards that have no row in the sheet */
+  notFound: CardEntry[];
+}
+
+interface SheetProperties {
+  sheetId: number;
+  title: string;
+}
+
+// Minimal typings for the Google Identity Services token client
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+interface GoogleAccounts {
+  oauth2: {
+    initTokenClient(config: {
+      client_id: string;
+      scope: string;
+      callback: (response: TokenResponse) => void;
+      error_callback?: (error: { type: string; message?: string }) => void;
+    }): { requestAccessToken(): void };
+  };
+}
+
+declare global {
+  interface Window {
+    google?: { accounts: GoogleAccounts };
+  }
+}
+
+let cachedToken: { clientId: string; token: string; expiresAt: number } | null = null;
+
+function loadIdentityServices(): Promise<GoogleAccounts> {
+  if (window.google?.accounts) {
+    return Promise.resolve(window.google.accounts);
+  }
+
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = GIS_SCRIPT_URL;
+    script.async = true;
+    script.onload = () => {
+      if (window.google?.accounts) {
+        resolve(window.google.accounts);
+      } else {
+        reject(new Error('Google sign-in failed to initialize'));
+      }
+    };
+    script.onerror = () => reject(new Error('Could not load Google sign-in. Check your connection.'));
+    document.head.appendChild(script);
+  });
+}
+
+/**
+ * Asks the user to sign in with Google and grant spreadsheet access.
+ * Tokens are reused until shortly before they expire.
+ */
+export async function requestSheetsAccessToken(clientId: string): Promise<string> {
+  if (cachedToken && cachedToken.clientId === clientId && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.token;
+  }
+
+  const accounts = await loadIdentityServices();
+
+  return new Promise((resolve, reject) => {
+    const client = accounts.oauth2.initTokenClient({
+      client_id: clientId,
+      scope: SHEETS_SCOPE,
+      callback: (response) => {
+        if (!response.access_token) {
+          reject(new Error(response.error_description || response.error || 'Google sign-in was not completed'));
+          return;
+        }
+        cachedToken = {
+          clientId,
+          token: response.access_token,
+          // Refresh a minute early so a token never expires mid-request
+          expiresAt: Date.now() + ((response.expires_in ?? 3600) - 60) * 1000,
+        };
+        resolve(response.access_token);
+      },
+      error_callback: (error) => reject(new Error(error.message || 'Google sign-in was cancelled')),
+    });
+    client.requestAccessToken();
+  });
+}
+
+/**
+ * Quotes a tab name for A1 notation: My Tab -> 'My Tab'
+ */
+function quoteTab(tab: string): string {
+  return `'${tab.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Thin client for the Sheets REST API. `baseUrl` can point at a local stub.
+ * Reads are retried after transient failures; writes are not, since an
+ * append or delete that did go through would be repeated.
+ */
+export function createSheetsClient(accessToken: string, baseUrl: string = SHEETS_API_BASE_URL) {
+  const request = async (path: string, init: RequestInit = {}) => {
+    const send = () => fetchOrThrow(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    }, 'the Sheets API');
+
+    const response = await (init.method ? send() : withRetry(send));
+    return response.json();
+  };
+
+  return {
+    async getTabs(spreadsheetId: string): Promise<SheetProperties[]> {
+      const data = await request(`/spreadsheets/${spreadsheetId}?fields=sheets.properties(sheetId,title)`);
+      return (data.sheets ?? []).map((sheet: { properties: SheetProperties }) => sheet.properties);
+    },
+
+    async getValues(spreadsheetId: string, tab: string): Promise<string[][]> {
+      const range = encodeURIComponent(quoteTab(tab));
+      const data = await request(`/spreadsheets/${spreadsheetId}/values/${range}`);
+      return data.values ?? [];
+    },
+
+    async updateValues(spreadsheetId: string, data: Array<{ range: string; values: string[][] }>): Promise<void> {
+      await request(`/spreadsheets/${spreadsheetId}/values:batchUpdate`, {
+        method: 'POST',
+        body: JSON.stringify({ valueInputOption: 'USER_ENTERED', data }),
+      });
+    },
+
+    async appendValues(spreadsheetId: string, tab: string, values: string[][]): Promise<void> {
+      const range = encodeURIComponent(quoteTab(tab));
+      // RAW: the rows are copied as read, so "1/12" isn't turned into a date,
+      // "001" into 1, or a value starting with "=" into a formula
+      await request(`/spreadsheets/${spreadsheetId}/values/${range}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`, {
+        method: 'POST',
+        body: JSON.stringify({ values }),
+      });
+    },
+
+    async deleteRows(spreadsheetId: string, sheetId: number, rows: number[]): Promise<void> {
+      // Delete bottom-up so earlier deletions don't shift later rows
+      const requests = [...rows]
+        .sort((a, b) => b - a)
+        .map(row => ({
+          deleteDimension: {
+            range: { sheetId, dimension: 'ROWS', startIndex: row - 1, endIndex: row },
+          },
+        }));
+      await request(`/spreadsheets/${spreadsheetId}:batchUpdate`, {
+        method: 'POST',
+        body: JSON.stringify({ requests }),
+      });
+    },
+  };
+}
+
+export type SheetsClient = ReturnType<typeof createSheetsClient>;
+
+/**
+ * Works out the sheet changes for marking cards as acquired, without
+ * touching the sheet. Each card is matched to the first unused row with the
+ * same name, variant and number.
+ */
+export function planWriteBack(
+  rows: string[][],
+  cards: CardEntry[],
+  tab: string,
+  mapping: ColumnMapping,
+  writeBack: WriteBackSettings,
+  haveTab: string,
+  today: string = new Date().toISOString().slice(0, 10)
+): WriteBackPlan {
+  const changes: SheetChange[] = [];
+  const notFound: CardEntry[] = [];
+  const usedRows = new Set<number>();
+
+  for (const card of cards) {
+    const key = cardKey(card);
+    // Skip the header row
+    const index = rows.findIndex((row, i) => {
+      if (i === 0 || usedRows.has(i)) return false;
+      const entry = rowToCardEntry(row, mapping);
+      return entry !== null && cardKey(entry) === key;
+    });
+
+    if (index === -1) {
+      notFound.push(card);
+      continue;
+    }
+    usedRows.add(index);
+
+    const before = rows[index];
+    const row = index + 1;
+
+    switch (writeBack.mode) {
+      case 'mark':
+      case 'date': {
+        const after = [...before];
+        const column = columnIndex(writeBack.column);
+        while (after.length <= column) after.push('');
+        after[column] = writeBack.mode === 'mark' ? writeBack.markValue : today;
+        changes.push({ kind: 'update', tab, row, column, before, after, card });
+        break;
+      }
+      case 'quantity': {
+        const after = [...before];
+        const column = columnIndex(mapping.quantity);
+        const quantity = parseInt(before[column] ?? '', 10);
+        while (after.length <= column) after.push('');
+        after[column] = String(Math.max((Number.isNaN(quantity) ? 1 : quantity) - 1, 0));
+        changes.push({ kind: 'update', tab, row, column, before, after, card });
+        break;
+      }
+      case 'move':
+        changes.push({ kind: 'append', tab: haveTab, row, before: [], after: before, card });
+        changes.push({ kind: 'delete', tab, row, before, after: [], card });
+        break;
+    }
+  }
+
+  return { changes, notFound };
+}
+
+/**
+ * Resolves the tab to write to; an empty name means the first tab, like the CSV export
+ */
+function resolveTab(tabs: SheetProperties[], name: string): SheetProperties {
+  const tab = name.trim() ? tabs.find(t => t.title === name.trim()) : tabs[0];
+  if (!tab) {
+    throw new Error(`Tab "${name}" not found in the spreadsheet`);
+  }
+  return tab;
+}
+
+/**
+ * Reads the missing list tab through the Sheets API and plans the write-back
+ */
+export async function previewWriteBack(
+  client: SheetsClient,
+  sheetUrl: string,
+  sheetTab: string,
+  cards: CardEntry[],
+  mapping: ColumnMapping,
+  writeBack: WriteBackSettings,
+  haveTab: string
+): Promise<WriteBackPlan> {
+  const spreadsheetId = extractSheetId(sheetUrl);
+  if (!spreadsheetId) {
+    throw new RequestError('Invalid Google Sheets URL. Please check the URL format.', 'invalid-url');
+  }
+
+  if (writeBack.mode === 'quantity' && !mapping.quantity) {
+    throw new Error('Map a quantity column before writing quantities back');
+  }
+  if ((writeBack.mode === 'mark' || writeBack.mode === 'date') && !writeBack.column) {
+    throw new Error('Choose the column to write to in Settings');
+  }
+  if (writeBack.mode === 'move' && !haveTab.trim()) {
+    throw new Error('Set the owned cards tab to move acquired cards to');
+  }
+
+  const tabs = await client.getTabs(spreadsheetId);
+  const tab = resolveTab(tabs, sheetTab);
+  if (writeBack.mode === 'move') {
+    resolveTab(tabs, haveTab);
+  }
+
+  const rows = await client.getValues(spreadsheetId, tab.title);
+  return planWriteBack(rows, cards, tab.title, mapping, writeBack, haveTab.trim());
+}
+
+/**
+ * Row contents without the empty cells the API leaves off the end
+ */
+function trimRow(row: string[]): string[] {
+  let length = row.length;
+  while (length > 0 && row[length - 1] === '') length--;
+  return row.slice(0, length);
+}
+
+/**
+ * Re-reads the rows a plan updates or deletes and throws if any of them
+ * changed since the preview, so rows that moved are never written or deleted
+ */
+async function checkRowsUnchanged(client: SheetsClient, spreadsheetId: string, changes: SheetChange[]): Promise<void> {
+  const tabs = new Set(changes.filter(change => change.kind !== 'append').map(change => change.tab));
+
+  for (const tab of tabs) {
+    const rows = await client.getValues(spreadsheetId, tab);
+    const moved = changes.some(change =>
+      change.kind !== 'append'
+      && change.tab === tab
+      && JSON.stringify(trimRow(rows[change.row - 1] ?? [])) !== JSON.stringify(trimRow(change.before))
+    );
+    if (moved) {
+      throw new Error(`The "${tab}" tab changed since the preview. Preview the changes again.`);
+    }
+  }
+}
+
+/**
+ * Applies a previewed plan: cell updates first, then appends, then row
+ * deletions. Nothing is written if the rows changed since the preview.
+ */
+export async function applyWriteBack(client: SheetsClient, sheetUrl: string, plan: WriteBackPlan): Promise<void> {
+  const spreadsheetId = extractSheetId(sheetUrl);
+  if (!spreadsheetId) {
+    throw new RequestError('Invalid Google Sheets URL. Please check the URL format.', 'invalid-url');
+  }
+
+  await checkRowsUnchanged(client, spreadsheetId, plan.changes);
+
+  // Only the target cell: rewriting the row would turn formulas into values
+  // and let Sheets re-parse formatted text such as "1/12" as a date
+  const updates = plan.changes.flatMap(({ kind, tab, row, column, after }) =>
+    kind === 'update' && column !== undefined
+      ? [{ range: `${quoteTab(tab)}!${columnLetter(column)}${row}`, values: [[after[column]]] }]
+      : []
+  );
+  if (updates.length > 0) {
+    await client.updateValues(spreadsheetId, updates);
+  }
+
+  const appends = plan.changes.filter(change => change.kind === 'append');
+  if (appends.length > 0) {
+    await client.appendValues(spreadsheetId, appends[0].tab, appends.map(change => change.after));
+  }
+
+  const deletes = plan.changes.filter(change => change.kind === 'delete');
+  if (deletes.length > 0) {
+    const tabs = await client.getTabs(spreadsheetId);
+    const tab = resolveTab(tabs, deletes[0].tab);
+    await client.deleteRows(spreadsheetId, tab.sheetId, deletes.map(change => change.row));
+  }
+}
@@ -0,0 +1,103 @@
+import type { AppSettings } from '../types';
+import { RequestError } from './errors';
+import { ModelOutputError } from './modelOutput';
+
+export interface StatusAction {
+  label: string;
+  /** Settings field to jump to */
+  field: keyof AppSettings | 'apiKeyPassphrase';
+}
+
+export interface StatusMessage {
+  type: 'success' | 'error' | 'loading' | 'info';
+  text: string;
+  action?: StatusAction;
+}
+
+const SERVICE_NAMES = {
+  vision: 'The vision service',
+  sheet: 'Google Sheets',
+  'sheets-api': 'Google Sheets',
+  proxy: 'The scan proxy',
+};
+
+/**
+ * The service a failed request went to, which decides the advice given
+ */
+export type ErrorSource = keyof typeof SERVICE_NAMES;
+
+/**
+ * Shows a failed request in the status bar
+ */
+export type ShowError = (error: unknown, fallback: string, source: ErrorSource) => void;
+
+/**
+ * What to tell the user about a failed request, with a shortcut to the
+ * setting that fixes it when there is one
+ */
+export function describeError(
+  error: unknown,
+  fallback: string,
+  source: ErrorSource
+): { text: string; action?: StatusAction } {
+  if (error instanceof ModelOutputError) {
+    return { text: error.problem === 'blocked' ? `${error.message}. Try another photo.` : error.message };
+  }
+  if (!(error instanceof RequestError)) {
+    return { text: error instanceof Error ? error.message : fallback };
+  }
+
+  const service = SERVICE_NAMES[source];
+  switch (error.kind) {
+    case 'invalid-key':
+      if (source === 'vision') {
+        return {
+          text: 'Your vision API key was rejected. Check that it is complete and still active.',
+          action: { label: 'Check API key', field: 'visionApiKey' },
+        };
+      }
+      if (source === 'proxy') {
+        return { text: "The scan proxy's vision API key was rejected. Update VISION_API_KEY where the proxy runs." };
+      }
+      return {
+        text: "Google didn't allow access to the sheet. Sign in with an account that can edit it.",
+        action: { label: 'Check client ID', field: 'oauthClientId' },
+      };
+    case 'rate-limit':
+      return { text: `${service} is limiting requests, or your quota is used up. Wait a minute and try again.` };
+    case 'server':
+      return { text: `${service} is having problems right now. Try again in a few minutes.` };
+    case 'network':
+      if (!navigator.onLine) {
+        return { text: "You're offline. Try again when you're back online." };
+      }
+      if (source === 'proxy') {
+        return {
+          text: 'Could not reach the scan proxy. Check that it is running and the URL is right.',
+          action: { label: 'Check proxy URL', field: 'proxyUrl' },
+        };
+      }
+      if (source === 'sheet') {
+        // A private sheet redirects to a sign-in page, which the browser reports as a network error
+        return {
+          text: 'Could not read the sheet. Make sure it is shared as "Anyone with the link can view".',
+          action: { label: 'Check sheet URL', field: 'sheetUrl' },
+        };
+      }
+      return source === 'vision'
+        ? { text: 'Could not reach the vision service. Check the endpoint.', action: { label: 'Check endpoint', field: 'visionEndpoint' } }
+        : { text: `Could not reach ${service}. Check your connection and try again.` };
+    case 'private-sheet':
+      return {
+        text: "This sheet isn't public or doesn't exist. In Google Sheets choose Share → Anyone with the link can view.",
+        action: { label: 'Check sheet URL', field: 'sheetUrl' },
+      };
+    case 'invalid-url':
+      return {
+        text: "That isn't a Google Sheets link. Copy the URL from the address bar while the sheet is open.",
+        action: { label: 'Fix sheet URL', field: 'sheetUrl' },
+      };
+    default:
+      return { text: error.message };
+  }
+}
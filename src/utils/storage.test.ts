@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearLegacyApiKey, hasLegacyApiKey, loadSettings, saveSettings } from './storage';
+
+const STORAGE_KEY = 'pokemon-scanner-settings';
+
+/** In-memory stand-in for the browser's localStorage */
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+}
+
+const storedSettings = () => JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createMemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('API key storage', () => {
+  it('never saves a new key with the settings', () => {
+    saveSettings({ ...loadSettings(), visionApiKey: 'AIza-new' });
+
+    expect(storedSettings().visionApiKey).toBeUndefined();
+    expect(loadSettings()).toMatchObject({ visionApiKey: '', apiKeyStorage: 'session' });
+  });
+
+  describe('with a key saved in plain text before the vault', () => {
+    beforeEach(() => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ sheetUrl: 'https://example.com', visionApiKey: 'AIza-legacy' }));
+    });
+
+    it('loads the key and asks for a passphrase to keep it', () => {
+      expect(hasLegacyApiKey()).toBe(true);
+      expect(loadSettings()).toMatchObject({ visionApiKey: 'AIza-legacy', apiKeyStorage: 'vault' });
+    });
+
+    it('keeps the key saved until it is moved', () => {
+      const settings = loadSettings();
+      saveSettings(settings);
+      saveSettings({ ...settings, sheetUrl: 'https://example.com/other' });
+
+      expect(storedSettings()).toMatchObject({ visionApiKey: 'AIza-legacy', sheetUrl: 'https://example.com/other' });
+      expect(loadSettings().visionApiKey).toBe('AIza-legacy');
+    });
+
+    it('forgets the key once cleared, and stops saving it', () => {
+      const settings = loadSettings();
+      clearLegacyApiKey();
+      saveSettings(settings);
+
+      expect(hasLegacyApiKey()).toBe(false);
+      expect(storedSettings()).toMatchObject({ sheetUrl: 'https://example.com', apiKeyStorage: 'vault' });
+      expect(storedSettings().visionApiKey).toBeUndefined();
+    });
+  });
+});
@@ -1,39 +1,142 @@
-import type { AppSettings } from '../types';
+import type { AppSettings, CardEntry, ColumnMapping, PreprocessSettings, WriteBackSettings } from '../types';
+import { parseCardEntry } from './cards';
+import { DEFAULT_MATCH_THRESHOLD } from './matching';
+import type { KeyVault } from './keyVault';
 
 const STORAGE_KEY = 'pokemon-scanner-settings';
 const MISSING_LIST_KEY = 'pokemon-scanner-missing-list';
+const OWNED_LIST_KEY = 'pokemon-scanner-owned-list';
+const SHEET_SNAPSHOT_KEY = 'pokemon-scanner-sheet-snapshot';
+const KEY_VAULT_KEY = 'pokemon-scanner-key-vault';
 
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  name: 'A',
+  setCode: '',
+  number: '',
+  variant: '',
+  rarity: '',
+  quantity: '',
+  notes: '',
+};
+
+const DEFAULT_WRITE_BACK: WriteBackSettings = {
+  mode: 'mark',
+  column: '',
+  markValue: 'TRUE',
+};
+
+const DEFAULT_PREPROCESS: PreprocessSettings = {
+  maxDimension: 1600,
+  format: 'jpeg',
+  quality: 0.85,
+  enhance: false,
+};
+
+const DEFAULT_SETTINGS: AppSettings = {
+  sheetUrl: '',
+  visionApiKey: '',
+  apiKeyStorage: 'session',
+  sheetTab: '',
+  columnMapping: DEFAULT_COLUMN_MAPPING,
+  ownedSheetTab: '',
+  oauthClientId: '',
+  writeBack: DEFAULT_WRITE_BACK,
+  scanMode: 'missing',
+  matchThreshold: DEFAULT_MATCH_THRESHOLD,
+  visionProvider: 'gemini',
+  visionEndpoint: '',
+  visionModel: '',
+  proxyUrl: '',
+  preprocess: DEFAULT_PREPROCESS,
+};
+
+/**
+ * Loads the saved settings. Settings from before the key vault still hold
+ * the API key in plain text; it is returned so scanning keeps working, and
+ * the key storage is set to the vault so the user is asked for a passphrase.
+ */
 export function loadSettings(): AppSettings {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      const { sheetColumn, ...parsed } = JSON.parse(stored);
+
+      // Settings saved before column mapping only had the name column
+      const columnMapping = {
+        ...DEFAULT_COLUMN_MAPPING,
+        ...(sheetColumn ? { name: sheetColumn } : {}),
+        ...parsed.columnMapping,
+      };
+
+      const writeBack = { ...DEFAULT_WRITE_BACK, ...parsed.writeBack };
+      const preprocess = { ...DEFAULT_PREPROCESS, ...parsed.preprocess };
+      // A key still in plain text is offered a passphrase to move it into the vault
+      const keyStorage = parsed.visionApiKey ? { apiKeyStorage: 'vault' } : {};
+
+      // Fill in fields added since the settings were saved
+      return { ...DEFAULT_SETTINGS, ...parsed, columnMapping, writeBack, preprocess, ...keyStorage };
     }
   } catch (e) {
     console.error('Failed to load settings:', e);
   }
 
-  return {
-    sheetUrl: '',
-    visionApiKey: '',
-    sheetTab: '',
-    sheetColumn: 'A',
-  };
+  return { ...DEFAULT_SETTINGS };
 }
 
+/**
+ * True while the saved settings still hold an API key in plain text, from
+ * before the key vault
+ */
+export function hasLegacyApiKey(): boolean {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return !!stored && !!JSON.parse(stored).visionApiKey;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Saves the settings without the API key, which only the key vault stores.
+ * A key already saved in plain text stays saved (and up to date) until
+ * clearLegacyApiKey, so it isn't lost before the user has moved it.
+ */
 export function saveSettings(settings: AppSettings): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    const visionApiKey = hasLegacyApiKey() ? settings.visionApiKey : undefined;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...settings, visionApiKey }));
   } catch (e) {
     console.error('Failed to save settings:', e);
   }
 }
 
-export function loadMissingList(): string[] {
+/**
+ * Removes a plain text API key from the saved settings, once it is in the
+ * key vault or the user chose not to save it
+ */
+export function clearLegacyApiKey(): void {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...JSON.parse(stored), visionApiKey: undefined }));
+    }
+  } catch (e) {
+    console.error('Failed to clear the saved API key:', e);
+  }
+}
+
+/**
+ * Lists saved before card entries existed are plain name strings
+ */
+function migrateCardList(list: Array<string | CardEntry>): CardEntry[] {
+  return list.map(item => (typeof item === 'string' ? parseCardEntry(item) : item));
+}
+
+export function loadMissingList(): CardEntry[] {
   try {
     const stored = localStorage.getItem(MISSING_LIST_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      return migrateCardList(JSON.parse(stored));
     }
   } catch (e) {
     console.error('Failed to load missing list:', e);
@@ -41,10 +144,78 @@ export function loadMissingList(): string[] {
   return [];
 }
 
-export function saveMissingList(list: string[]): void {
+export function saveMissingList(list: CardEntry[]): void {
   try {
     localStorage.setItem(MISSING_LIST_KEY, JSON.stringify(list));
   } catch (e) {
     console.error('Failed to save missing list:', e);
   }
 }
+
+export function loadOwnedList(): CardEntry[] {
+  try {
+    const stored = localStorage.getItem(OWNED_LIST_KEY);
+    if (stored) {
+      return migrateCardList(JSON.parse(stored));
+    }
+  } catch (e) {
+    console.error('Failed to load owned list:', e);
+  }
+  return [];
+}
+
+export function saveOwnedList(list: CardEntry[]): void {
+  try {
+    localStorage.setItem(OWNED_LIST_KEY, JSON.stringify(list));
+  } catch (e) {
+    console.error('Failed to save owned list:', e);
+  }
+}
+
+/**
+ * The missing list as last loaded from the sheet, used to detect and merge
+ * local edits. Null until the sheet has been loaded with this version.
+ */
+export function loadSheetSnapshot(): CardEntry[] | null {
+  try {
+    const stored = localStorage.getItem(SHEET_SNAPSHOT_KEY);
+    if (stored) {
+      return migrateCardList(JSON.parse(stored));
+    }
+  } catch (e) {
+    console.error('Failed to load sheet snapshot:', e);
+  }
+  return null;
+}
+
+export function saveSheetSnapshot(list: CardEntry[]): void {
+  try {
+    localStorage.setItem(SHEET_SNAPSHOT_KEY, JSON.stringify(list));
+  } catch (e) {
+    console.error('Failed to save sheet snapshot:', e);
+  }
+}
+
+export function loadKeyVault(): KeyVault | null {
+  try {
+    const stored = localStorage.getItem(KEY_VAULT_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error('Failed to load key vault:', e);
+  }
+  return null;
+}
+
+export function saveKeyVault(vault: KeyVault): void {
+  try {
+    localStorage.setItem(KEY_VAULT_KEY, JSON.stringify(vault));
+  } catch (e) {
+    console.error('Failed to save key vault:', e);
+  }
+}
+
+export function clearKeyVault(): void {
+  localStorage.removeItem(KEY_VAULT_KEY);
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { RequestError } from './errors';
+import type { RecordedExchange, Transport } from './transport';
+import { createRecordingTransport, createReplayTransport, redactHeaders, redactUrl, REDACTED } from './transport';
+
+const ENDPOINT = 'https://vision.example.com/v1/models/scan:generate';
+
+/**
+ * Stand-in for the network that answers every request with the next reply
+ * and counts what it was sent
+ */
+function createServer(replies: string[]) {
+  const sent: string[] = [];
+  const transport: Transport = async (url, init) => {
+    sent.push(`${init.method ?? 'GET'} ${url}`);
+    return new Response(replies[sent.length - 1] ?? '', {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Set-Cookie': 'session=secret' },
+    });
+  };
+  return { transport, sent };
+}
+
+/** Records one conversation with the stand-in server */
+async function record(replies: string[], send: (transport: Transport) => Promise<void>) {
+  const server = createServer(replies);
+  const recorder = createRecordingTransport(server.transport);
+  await send(recorder.transport);
+  return recorder.exchanges();
+}
+
+const post = (transport: Transport, body: string, key = 'sk-live-123') =>
+  transport(`${ENDPOINT}?key=${key}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${key}`, 'Content-Type': 'application/json' },
+    body,
+  }).then(response => response.text());
+
+describe('redaction', () => {
+  it('replaces credential query parameters and keeps the rest', () => {
+    expect(redactUrl(`${ENDPOINT}?key=abc&alt=sse`)).toBe(`${ENDPOINT}?key=${REDACTED}&alt=sse`);
+    expect(redactUrl('https://sheets.example.com/v4?access_token=t&token=u&api_key=v')).toBe(
+      `https://sheets.example.com/v4?access_token=${REDACTED}&token=${REDACTED}&api_key=${REDACTED}`
+    );
+    expect(redactUrl('not a url?key=abc')).toBe('not a url?key=abc');
+  });
+
+  it('replaces credential headers whatever their case', () => {
+    expect(redactHeaders({
+      Authorization: 'Bearer abc',
+      'X-Goog-Api-Key': 'abc',
+      'x-api-key': 'abc',
+      Cookie: 'a=b',
+      'Content-Type': 'application/json',
+    })).toEqual({
+      authorization: REDACTED,
+      'x-goog-api-key': REDACTED,
+      'x-api-key': REDACTED,
+      cookie: REDACTED,
+      'content-type': 'application/json',
+    });
+  });
+
+  it('keeps no credentials in a recording', async () => {
+    const exchanges = await record(['[]'], async transport => {
+      await post(transport, '{"image":"..."}');
+    });
+
+    const text = JSON.stringify(exchanges);
+    expect(text).not.toContain('sk-live-123');
+    expect(text).not.toContain('session=secret');
+    expect(exchanges[0].request.url).toBe(`${ENDPOINT}?key=${REDACTED}`);
+    expect(exchanges[0].response.headers['set-cookie']).toBe(REDACTED);
+  });
+});
+
+describe('createRecordingTransport', () => {
+  it('hands the response on and records a hash of the body', async () => {
+    let reply = '';
+    const exchanges = await record(['[{"name":"Mew"}]'], async transport => {
+      reply = await post(transport, 'photo');
+    });
+
+    expect(reply).toBe('[{"name":"Mew"}]');
+    expect(exchanges).toHaveLength(1);
+    expect(exchanges[0].request).toMatchObject({
+      method: 'POST',
+      // SHA-256 of "photo"
+      bodyHash: '55c64d0fcd6f9d5f7c828093857e3fdfda68478bb4e9bd24d481ef391c7804e8',
+    });
+    expect(JSON.stringify(exchanges)).not.toContain('photo');
+    expect(exchanges[0].response).toMatchObject({ status: 200, body: '[{"name":"Mew"}]' });
+  });
+});
+
+describe('createReplayTransport', () => {
+  it('answers requests by their body, whatever the credentials', async () => {
+    const exchanges = await record(['"pikachu"', '"eevee"'], async transport => {
+      await post(transport, 'photo of pikachu');
+      await post(transport, 'photo of eevee');
+    });
+    const replay = createReplayTransport(exchanges);
+
+    expect(await post(replay, 'photo of eevee', 'other-key')).toBe('"eevee"');
+    expect(await post(replay, 'photo of pikachu', 'other-key')).toBe('"pikachu"');
+  });
+
+  it('replays repeats of a request in order, then the last response again', async () => {
+    const exchanges = await record(['"first"', '"second"'], async transport => {
+      await post(transport, 'same photo');
+      await post(transport, 'same photo');
+    });
+    const replay = createReplayTransport(exchanges);
+
+    expect(await post(replay, 'same photo')).toBe('"first"');
+    expect(await post(replay, 'same photo')).toBe('"second"');
+    expect(await post(replay, 'same photo')).toBe('"second"');
+  });
+
+  it('keeps the recorded status and headers', async () => {
+    const exchange: RecordedExchange = {
+      request: { method: 'GET', url: ENDPOINT, headers: {}, bodyHash: null },
+      response: { status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '2' }, body: '' },
+    };
+    const response = await createReplayTransport([exchange])(ENDPOINT, {});
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('2');
+  });
+
+  it('fails a request that was not recorded', async () => {
+    const exchanges = await record(['"pikachu"'], async transport => {
+      await post(transport, 'photo of pikachu');
+    });
+    const replay = createReplayTransport(exchanges);
+
+    const failure = post(replay, 'photo of mew');
+    await expect(failure).rejects.toBeInstanceOf(RequestError);
+    await expect(failure).rejects.toMatchObject({
+      kind: 'request',
+      message: `No recorded response for POST ${ENDPOINT}?key=${REDACTED}`,
+    });
+  });
+});
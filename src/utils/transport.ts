@@ -0,0 +1,181 @@
+import { RequestError } from './errors';
+
+/**
+ * The fetch every request to the vision and sheet services goes through.
+ * Swapped out to record traffic, or to answer from a recording.
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+const defaultTransport: Transport = (url, init) => fetch(url, init);
+
+let currentTransport: Transport = defaultTransport;
+
+/**
+ * The transport requests are currently sent with
+ */
+export function getTransport(): Transport {
+  return currentTransport;
+}
+
+/**
+ * Sends all requests through `transport` from now on; null goes back to fetch
+ */
+export function setTransport(transport: Transport | null): void {
+  currentTransport = transport ?? defaultTransport;
+}
+
+/**
+ * A request and the response it got, with API keys and tokens removed.
+ * The request body is kept only as a hash: photo uploads are large, and
+ * the hash is enough to tell requests apart on replay.
+ */
+export interface RecordedExchange {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    bodyHash: string | null;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+/**
+ * An HTTP recording file, as written by the CLI's --http-record
+ */
+export interface HttpRecording {
+  exchanges: RecordedExchange[];
+}
+
+export const REDACTED = 'REDACTED';
+
+/** Query parameters that carry credentials */
+const SECRET_PARAMS = ['key', 'api_key', 'access_token', 'token'];
+
+/** Headers that carry credentials; compared in lower case */
+const SECRET_HEADERS = new Set(['authorization', 'x-goog-api-key', 'x-api-key', 'cookie', 'set-cookie']);
+
+/**
+ * The URL with the values of credential query parameters replaced
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  for (const param of SECRET_PARAMS) {
+    if (parsed.searchParams.has(param)) {
+      parsed.searchParams.set(param, REDACTED);
+    }
+  }
+  return parsed.toString();
+}
+
+/**
+ * Headers as a plain object, with credential headers replaced
+ */
+export function redactHeaders(headers: HeadersInit | undefined): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    redacted[name] = SECRET_HEADERS.has(name) ? REDACTED : value;
+  });
+  return redacted;
+}
+
+/**
+ * SHA-256 of a text request body, or null for requests without one
+ */
+async function hashBody(body: RequestInit['body']): Promise<string | null> {
+  if (typeof body !== 'string') {
+    return null;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function describeRequest(url: string, init: RequestInit): Promise<RecordedExchange['request']> {
+  return {
+    method: (init.method ?? 'GET').toUpperCase(),
+    url: redactUrl(url),
+    headers: redactHeaders(init.headers),
+    bodyHash: await hashBody(init.body),
+  };
+}
+
+export interface TransportRecorder {
+  transport: Transport;
+  /** Waits for responses that are still arriving, then returns every exchange so far */
+  exchanges(): Promise<RecordedExchange[]>;
+}
+
+/**
+ * Wraps a transport to record each exchange. Responses are handed on right
+ * away, so streamed replies still stream; the recorded copy is read in the
+ * background. Requests that fail or are cancelled mid-response aren't kept.
+ */
+export function createRecordingTransport(inner: Transport = getTransport()): TransportRecorder {
+  const recorded: Array<Promise<RecordedExchange | null>> = [];
+
+  const transport: Transport = async (url, init) => {
+    const request = describeRequest(url, init);
+    const response = await inner(url, init);
+    const copy = response.clone();
+
+    recorded.push(Promise.all([request, copy.text()])
+      .then(([request, body]) => ({
+        request,
+        response: {
+          status: copy.status,
+          statusText: copy.statusText,
+          headers: redactHeaders(copy.headers),
+          body,
+        },
+      }))
+      .catch(() => null));
+
+    return response;
+  };
+
+  return {
+    transport,
+    async exchanges() {
+      const exchanges = await Promise.all(recorded);
+      return exchanges.filter((exchange): exchange is RecordedExchange => exchange !== null);
+    },
+  };
+}
+
+/**
+ * A transport that answers from recorded exchanges instead of the network.
+ * Requests are matched on method, URL (credentials aside) and body; repeats
+ * of a request get its recorded responses in order, then the last one
+ * again. A request that wasn't recorded fails with a RequestError.
+ */
+export function createReplayTransport(exchanges: RecordedExchange[]): Transport {
+  const used = new Set<RecordedExchange>();
+
+  return async (url, init) => {
+    init.signal?.throwIfAborted();
+    const request = await describeRequest(url, init);
+    const matches = exchanges.filter(exchange =>
+      exchange.request.method === request.method
+      && exchange.request.url === request.url
+      && exchange.request.bodyHash === request.bodyHash
+    );
+
+    const exchange = matches.find(candidate => !used.has(candidate)) ?? matches.at(-1);
+    if (!exchange) {
+      throw new RequestError(`No recorded response for ${request.method} ${request.url}`, 'request');
+    }
+    used.add(exchange);
+
+    const { status, statusText, headers, body } = exchange.response;
+    return new Response(body || null, { status, statusText, headers });
+  };
+}
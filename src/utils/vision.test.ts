@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { CardEntry } from '../types';
+import { parseCardEntry } from './cards';
+import { LIST_TOKEN_BUDGET } from './promptPlan';
+import type { VisionProvider } from './vision';
+import { buildInventoryPrompt, identifyCardsInImage, validateDetections } from './vision';
+
+/** Entries listed in a missing list prompt, as written */
+const listedEntries = (prompt: string) =>
+  (prompt.match(/looking for:\n([\s\S]*?)\n\n/)?.[1] ?? '').split('\n').map(line => line.slice('- '.length));
+
+/**
+ * Provider that sees the cards `onTable` and answers each prompt the way a
+ * model would: every card for the inventory prompt, and those with a name
+ * listed otherwise
+ */
+function createTableProvider(onTable: string[]) {
+  const prompts: string[] = [];
+  const provider: VisionProvider = {
+    name: 'Table',
+    requiresApiKey: false,
+    async identify({ prompt }) {
+      prompts.push(prompt);
+      const seen = prompt === buildInventoryPrompt()
+        ? onTable
+        : onTable.filter(name => listedEntries(prompt).some(entry => parseCardEntry(entry).name === name));
+      return JSON.stringify(seen.map(name => ({ name, confidence: 0.9 })));
+    },
+    validate: validateDetections,
+  };
+  return { provider, prompts };
+}
+
+/** A missing list of about `tokens` tokens that ends with `last` */
+function longList(tokens: number, last: string): CardEntry[] {
+  const filler = Array.from({ length: Math.ceil(tokens / 4) }, (_, i) => parseCardEntry(`Filler ${1000 + i}`));
+  return [...filler, parseCardEntry(last)];
+}
+
+describe('identifyCardsInImage', () => {
+  it('asks once when the list fits in one prompt', async () => {
+    const { provider, prompts } = createTableProvider(['Pikachu']);
+    const output = await identifyCardsInImage('aGk=', provider, 'missing', [parseCardEntry('Pikachu')]);
+
+    expect(prompts).toHaveLength(1);
+    expect(output.detections.map(card => card.name)).toEqual(['Pikachu']);
+  });
+
+  it('asks about each chunk of a long list and merges the answers', async () => {
+    const { provider, prompts } = createTableProvider(['Filler 1000', 'Mewtwo']);
+    const output = await identifyCardsInImage('aGk=', provider, 'missing', longList(LIST_TOKEN_BUDGET * 2, 'Mewtwo'));
+
+    expect(prompts.length).toBeGreaterThan(1);
+    expect(prompts).not.toContain(buildInventoryPrompt());
+    expect(output.detections.map(card => card.name)).toEqual(['Filler 1000', 'Mewtwo']);
+  });
+
+  it('reads names first when the list is too long to chunk', async () => {
+    const { provider, prompts } = createTableProvider(['Charizard']);
+    const missing = [...longList(LIST_TOKEN_BUDGET * 5, 'Charizard ex'), parseCardEntry('Charizard 4/102')];
+    const output = await identifyCardsInImage('aGk=', provider, 'missing', missing);
+
+    expect(prompts[0]).toBe(buildInventoryPrompt());
+    expect(prompts.slice(1).map(listedEntries)).toEqual([['Charizard ex', 'Charizard 4/102']]);
+    expect(output.detections.map(card => card.name)).toEqual(['Charizard']);
+  });
+});
@@ -1,16 +1,75 @@
+import type { BoundingBox, CardDetection, CardEntry, ScanMode, ScanResult } from '../types';
+import { formatCardEntry } from './cards';
+import { findMatchingCard, DEFAULT_MATCH_THRESHOLD } from './matching';
+import { chunkCardList, mergeDetections, planPrompts, shortlistCandidates } from './promptPlan';
+import { ModelOutputError, parseJsonArray } from './modelOutput';
+import { withRetry } from './errors';
+import type { RetryOptions } from './errors';
+
 /**
- * Uses Google Gemini 3 Pro to identify Pokemon card names from an image
- * by providing the missing list directly in the prompt
+ * A single request to a vision model: one image plus the instructions for it
  */
-export async function findMissingPokemonInImage(
-  imageBase64: string,
-  missingList: string[],
-  apiKey: string
-): Promise<string[]> {
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`;
+export interface VisionRequest {
+  imageBase64: string;
+  mimeType: string;
+  prompt: string;
+  signal?: AbortSignal;
+  /** Called with the reply so far, by providers that stream it */
+  onPartial?: (text: string) => void;
+  /** Called with the tokens the request used, by providers that report them */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Tokens billed for one request; thinking tokens count as output
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * A vision backend that can look at a photo of cards and report what it sees.
+ * `identify` talks to the model and returns its raw text reply, `validate`
+ * checks that reply against the detection schema. Failed requests throw a
+ * RequestError, and replies that can't be used a ModelOutputError.
+ */
+export interface VisionProvider {
+  name: string;
+  requiresApiKey: boolean;
+  /** False for engines that ignore the prompt; they are asked once per photo */
+  promptable?: boolean;
+  identify(request: VisionRequest): Promise<string>;
+  validate(rawResponse: string): CardDetection[];
+  /** Runs the whole scan elsewhere, for providers like the scan proxy that don't take single prompts */
+  scan?(imageBase64: string, mode: ScanMode, missingList: CardEntry[], options: ScanOptions): Promise<VisionScanOutput>;
+}
+
+/**
+ * Options for a scan: retrying and cancellation, plus `onPartial`, which is
+ * called with the cards found so far while a streamed reply arrives
+ */
+export interface ScanOptions extends RetryOptions {
+  onPartial?: (detections: CardDetection[]) => void;
+}
 
+/**
+ * What a scan returned: the validated detections and the model's raw reply.
+ * `truncated` is set when a reply was cut off and only the cards before the
+ * cut could be kept.
+ */
+export interface VisionScanOutput {
+  detections: CardDetection[];
+  rawResponse: string;
+  truncated: boolean;
+}
+
+/**
+ * Splits a data URL into its base64 payload and mime type (defaults to jpeg)
+ */
+export function parseImageData(imageBase64: string): { data: string; mimeType: string } {
   // Remove data URL prefix if present
-  const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
+  const data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
 
   // Detect mime type from data URL or default to jpeg
   let mimeType = 'image/jpeg';
@@ -19,127 +78,314 @@ export async function findMissingPokemonInImage(
     mimeType = mimeMatch[1];
   }
 
-  // Create the prompt with the missing list
-  const prompt = `You are analyzing a photo of Pokemon trading cards. Your task is to identify which Pokemon cards are visible in this image.
+  return { data, mimeType };
+}
+
+const DETECTION_FIELDS = `- "set": the set name or set code if you can read it, otherwise null
+- "number": the collector number printed at the bottom (e.g. "044/198"), otherwise null
+- "box_2d": the card's bounding box as [ymin, xmin, ymax, xmax], normalized to 0-1000
+- "confidence": how sure you are of the name, from 0.0 to 1.0`;
+
+/**
+ * Builds the prompt that asks the model which missing cards are in the photo
+ */
+export function buildMissingListPrompt(missingList: CardEntry[]): string {
+  return `You are analyzing a photo of Pokemon trading cards. Your task is to identify which Pokemon cards are visible in this image.
 
 Here is my list of missing Pokemon cards that I'm looking for:
-${missingList.map(name => `- ${name}`).join('\n')}
+${missingList.map(card => `- ${formatCardEntry(card)}`).join('\n')}
 
 Please examine the image carefully and identify ANY Pokemon card names that are visible on the cards in the photo. Look at the name printed on each card (usually at the top of the card).
 
 IMPORTANT:
 - Only report Pokemon names that you can actually see written on cards in the image
 - Match the names against my missing list above
-- Report ONLY the names from my missing list that appear in the image
-- If a card name has slight variations (like "Pikachu V" vs "Pikachu"), still match it if the base name is the same
+- Report ONLY the cards from my missing list that appear in the image
+- Entries with a suffix like "ex", "V" or "VMAX" or a collector number only match that exact card; entries with a plain name match any version of it
+- Report each physical card separately, even if the same name appears more than once
+
+For every matching card, report:
+- "name": the card name as printed, which should match a name from my missing list
+${DETECTION_FIELDS}
 
-Respond with ONLY a JSON array of the matching Pokemon names from my missing list, nothing else.
+Respond with ONLY a JSON array of these objects, nothing else.
 If no matches are found, respond with an empty array: []
 
-Example response format: ["Pikachu", "Charizard", "Mewtwo"]`;
-
-  const requestBody = {
-    contents: [
-      {
-        parts: [
-          {
-            inline_data: {
-              mime_type: mimeType,
-              data: base64Data,
-            },
-          },
-          {
-            text: prompt,
-          },
-        ],
-      },
-    ],
-    generationConfig: {
-      temperature: 0.1, // Low temperature for more precise matching
-      topP: 0.8,
-      maxOutputTokens: 8192, // Increased to account for model's thinking tokens
-    },
+Example response format:
+[{"name": "Pikachu", "set": "Vivid Voltage", "number": "043/185", "box_2d": [12, 40, 480, 330], "confidence": 0.95}]`;
+}
+
+/**
+ * Builds the prompt that asks the model for every card it can read,
+ * for inventory scans that are classified locally afterwards
+ */
+export function buildInventoryPrompt(): string {
+  return `You are analyzing a photo of Pokemon trading cards. Your task is to identify every Pokemon card that is visible in this image.
+
+Please examine the image carefully and read the name printed on each card (usually at the top of the card).
+
+IMPORTANT:
+- Report every card whose name you can actually read, including Trainer and Energy cards
+- Use the full name exactly as printed, including suffixes like "V", "VMAX", "ex" or "GX"
+- Report each physical card separately, even if the same name appears more than once
+- Skip cards whose name you cannot read
+
+For every card, report:
+- "name": the card name as printed
+${DETECTION_FIELDS}
+
+Respond with ONLY a JSON array of these objects, nothing else.
+If no cards are readable, respond with an empty array: []
+
+Example response format:
+[{"name": "Pikachu V", "set": "Vivid Voltage", "number": "043/185", "box_2d": [12, 40, 480, 330], "confidence": 0.95}]`;
+}
+
+/**
+ * Converts a Gemini-style [ymin, xmin, ymax, xmax] box on a 0-1000 scale
+ * into a normalized bounding box, or null if it is malformed
+ */
+export function parseBox2d(value: unknown): BoundingBox | null {
+  if (!Array.isArray(value) || value.length !== 4) {
+    return null;
+  }
+  if (!value.every(n => typeof n === 'number' && Number.isFinite(n))) {
+    return null;
+  }
+
+  const [ymin, xmin, ymax, xmax] = value.map(n => Math.min(Math.max(n, 0), 1000) / 1000);
+  if (xmax <= xmin || ymax <= ymin) {
+    return null;
+  }
+
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+}
+
+/**
+ * Validates one entry of the model's reply against the detection schema.
+ * Bare strings from older prompts are accepted as a name without details.
+ */
+export function parseDetection(item: unknown): CardDetection | null {
+  if (typeof item === 'string') {
+    return item.trim()
+      ? { name: item.trim(), set: null, number: null, box: null, confidence: 1.0 }
+      : null;
+  }
+
+  if (!item || typeof item !== 'object') {
+    return null;
+  }
+
+  const entry = item as Record<string, unknown>;
+  if (typeof entry.name !== 'string' || !entry.name.trim()) {
+    return null;
+  }
+
+  const optionalString = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim() : null;
+
+  const confidence = typeof entry.confidence === 'number' && Number.isFinite(entry.confidence)
+    ? Math.min(Math.max(entry.confidence, 0), 1)
+    : 1.0;
+
+  return {
+    name: entry.name.trim(),
+    set: optionalString(entry.set),
+    number: optionalString(entry.number),
+    box: parseBox2d(entry.box_2d),
+    confidence,
   };
+}
 
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      if (errorData.error?.message) {
-        throw new Error(errorData.error.message);
-      }
-      throw new Error(`Gemini API error: ${response.statusText}`);
-    }
+/**
+ * Default response validation shared by all providers: parses the JSON array
+ * of detections, repairing it if it was cut off, and drops entries that do
+ * not match the schema. A reply that isn't an array throws a
+ * ModelOutputError instead of being guessed at.
+ */
+export function validateDetections(rawResponse: string): CardDetection[] {
+  if (!rawResponse.trim()) {
+    return [];
+  }
 
-    const data = await response.json();
+  return parseJsonArray(rawResponse)
+    .map(parseDetection)
+    .filter((detection): detection is CardDetection => detection !== null);
+}
+
+/**
+ * Classifies each detection locally: 'need' if it matches the missing list,
+ * 'have' if it matches the owned list, otherwise 'unknown'. Matched cards are
+ * reported under their name from the list, with the name similarity as the
+ * result's confidence.
+ */
+export function classifyDetections(
+  detections: CardDetection[],
+  missingList: CardEntry[],
+  ownedList: CardEntry[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): ScanResult[] {
+  return detections.map(detection => {
+    const base = {
+      ...detection,
+      detectedName: detection.name,
+      modelConfidence: detection.confidence,
+    };
 
-    // Extract the text response
-    const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    const missing = findMatchingCard(detection, missingList, threshold);
+    if (missing.match) {
+      return {
+        ...base,
+        name: missing.match.name,
+        card: missing.match,
+        confidence: missing.confidence,
+        status: 'need' as const,
+      };
+    }
 
-    if (!textResponse) {
-      return [];
+    const owned = findMatchingCard(detection, ownedList, threshold);
+    if (owned.match) {
+      return {
+        ...base,
+        name: owned.match.name,
+        card: owned.match,
+        confidence: owned.confidence,
+        status: 'have' as const,
+      };
     }
 
-    // Parse the JSON array from the response
+    return {
+      ...base,
+      card: null,
+      confidence: Math.max(missing.confidence, owned.confidence),
+      status: 'unknown' as const,
+    };
+  });
+}
+
+/**
+ * The cards a cut-off reply got to before the cut, if any can be read
+ */
+function salvageDetections(provider: VisionProvider, partialText: string): CardDetection[] {
+  try {
+    return provider.validate(partialText);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Asks the given vision provider which cards are visible in the image.
+ * In 'missing' mode the prompt lists the missing cards, in 'inventory'
+ * mode the model reports everything it can read. Long missing lists are
+ * split across several requests according to the prompt plan. Each request
+ * is retried after transient failures; `options.signal` cancels the scan.
+ * Providers with a `scan` of their own run the whole scan themselves.
+ */
+export async function identifyCardsInImage(
+  imageBase64: string,
+  provider: VisionProvider,
+  mode: ScanMode,
+  missingList: CardEntry[],
+  options: ScanOptions = {}
+): Promise<VisionScanOutput> {
+  if (provider.scan) {
+    return provider.scan(imageBase64, mode, missingList, options);
+  }
+
+  const { data, mimeType } = parseImageData(imageBase64);
+  const rawResponses: string[] = [];
+  const responses: CardDetection[][] = [];
+  let truncated = false;
+
+  // Shows a streamed reply as it arrives, together with earlier answers
+  const showPartial = (text: string) => {
+    const detections = salvageDetections(provider, text);
+    options.onPartial?.(mergeDetections([...responses, detections]));
+  };
+
+  // `partial`: whether the reply's cards are results worth showing early
+  const ask = async (prompt: string, partial: boolean = true) => {
     try {
-      // Clean up the response - remove markdown code blocks if present
-      let cleanedResponse = textResponse.trim();
-      if (cleanedResponse.startsWith('```json')) {
-        cleanedResponse = cleanedResponse.slice(7);
-      }
-      if (cleanedResponse.startsWith('```')) {
-        cleanedResponse = cleanedResponse.slice(3);
-      }
-      if (cleanedResponse.endsWith('```')) {
-        cleanedResponse = cleanedResponse.slice(0, -3);
-      }
-      cleanedResponse = cleanedResponse.trim();
-
-      const foundPokemon = JSON.parse(cleanedResponse);
-
-      if (Array.isArray(foundPokemon)) {
-        // Validate that all returned names are actually in the missing list
-        const validNames = foundPokemon.filter((name: string) =>
-          missingList.some(missing =>
-            missing.toLowerCase() === name.toLowerCase() ||
-            missing.toLowerCase().includes(name.toLowerCase()) ||
-            name.toLowerCase().includes(missing.toLowerCase())
-          )
-        );
-
-        // Return the original names from the missing list for consistency
-        return validNames.map((name: string) => {
-          const match = missingList.find(missing =>
-            missing.toLowerCase() === name.toLowerCase() ||
-            missing.toLowerCase().includes(name.toLowerCase()) ||
-            name.toLowerCase().includes(missing.toLowerCase())
-          );
-          return match || name;
-        });
+      const rawResponse = await withRetry(
+        () => provider.identify({
+          imageBase64: data,
+          mimeType,
+          prompt,
+          signal: options.signal,
+          onPartial: partial && options.onPartial ? showPartial : undefined,
+        }),
+        options
+      );
+      rawResponses.push(rawResponse);
+      return provider.validate(rawResponse);
+    } catch (error) {
+      // Keep the cards a cut-off reply got to, if any; otherwise report the cut
+      if (error instanceof ModelOutputError && error.problem === 'truncated') {
+        const detections = salvageDetections(provider, error.partialText);
+        if (detections.length > 0) {
+          rawResponses.push(error.partialText);
+          truncated = true;
+          return detections;
+        }
       }
+      throw error;
+    }
+  };
 
-      return [];
-    } catch {
-      // If JSON parsing fails, try to extract names manually
-      const foundNames: string[] = [];
-      for (const pokemon of missingList) {
-        if (textResponse.toLowerCase().includes(pokemon.toLowerCase())) {
-          foundNames.push(pokemon);
-        }
+  // Several replies are kept together, separated by blank lines
+  const output = (detections: CardDetection[]) => ({
+    detections,
+    rawResponse: rawResponses.join('\n\n'),
+    truncated,
+  });
+
+  try {
+    if (mode === 'inventory' || provider.promptable === false) {
+      return output(await ask(buildInventoryPrompt()));
+    }
+
+    const plan = planPrompts(missingList);
+    let chunks = plan.chunks;
+
+    if (plan.strategy === 'shortlist') {
+      // The first pass only reads names to pick candidates; they aren't results yet
+      const readCards = await ask(buildInventoryPrompt(), false);
+      const shortlist = shortlistCandidates(readCards, missingList);
+      if (shortlist.length === 0) {
+        return output([]);
       }
-      return foundNames;
+      chunks = chunkCardList(shortlist);
     }
+
+    // One request at a time, to stay clear of provider rate limits
+    for (const chunk of chunks) {
+      responses.push(await ask(buildMissingListPrompt(chunk)));
+    }
+
+    return output(mergeDetections(responses));
   } catch (error) {
     if (error instanceof Error) {
       throw error;
     }
-    throw new Error('Failed to process image with Gemini API');
+    throw new Error(`Failed to process image with ${provider.name}`);
   }
 }
+
+/**
+ * Asks the given vision provider which cards from the missing list are
+ * visible in the image
+ */
+export async function findMissingPokemonInImage(
+  imageBase64: string,
+  missingList: CardEntry[],
+  provider: VisionProvider,
+  threshold: number = DEFAULT_MATCH_THRESHOLD,
+  options: ScanOptions = {}
+): Promise<ScanResult[]> {
+  const { detections } = await identifyCardsInImage(imageBase64, provider, 'missing', missingList, options);
+
+  // Keep only cards on the missing list, under their name from the list
+  return classifyDetections(detections, missingList, [], threshold)
+    .filter(result => result.status === 'need');
+}
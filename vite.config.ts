@@ -1,15 +1,57 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
+import type { Connect, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA } from 'vite-plugin-pwa'
 
+/**
+ * Serves the scan proxy (server.ts) under /api on the dev server when
+ * DEV_PROXY=true, with its settings read from .env; then set the app's
+ * Scan Proxy URL to the dev server's address
+ */
+function scanProxy(mode: string): Plugin {
+  return {
+    name: 'scan-proxy',
+    apply: 'serve',
+    configureServer(server) {
+      const env = loadEnv(mode, process.cwd(), '')
+      if (env.DEV_PROXY !== 'true') return
+
+      let handler: Promise<Connect.NextHandleFunction> | null = null
+      server.middlewares.use('/api/', (req, res, next) => {
+        // Mounting strips the prefix; the handler routes on the full path
+        req.url = req.originalUrl
+        handler ??= server.ssrLoadModule('/server.ts').then(
+          ({ createProxyHandler, proxyConfigFromEnv }) => createProxyHandler(proxyConfigFromEnv(env))
+        )
+        handler.then(handle => handle(req, res, next), next)
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   base: '/PokemonScanner/',
   plugins: [
     react(),
+    scanProxy(mode),
     VitePWA({
       registerType: 'autoUpdate',
       includeAssets: ['favicon.ico', 'apple-touch-icon.png', 'mask-icon.svg'],
+      workbox: {
+        // The offline OCR engine loads its worker, WASM core and language
+        // data from the CDN; keep them so offline scanning works
+        runtimeCaching: [
+          {
+            urlPattern: /^https:\/\/cdn\.jsdelivr\.net\/npm\/(tesseract\.js|tesseract\.js-core|@tesseract\.js-data)[@/]/,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'ocr-engine',
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+        ],
+      },
       manifest: {
         name: 'Pokémon Card Scanner',
         short_name: 'PokéScanner',
@@ -39,4 +81,4 @@ export default defineConfig({
       }
     })
   ],
-})
+}))